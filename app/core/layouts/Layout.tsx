@@ -5,10 +5,14 @@ import { ActionIcon, AppShell, Avatar, Box, Button, Header, Menu, Title } from "
 import { showNotification } from "@mantine/notifications";
 import {
   IconCheck,
+  IconClock,
   IconCloudDownload,
   IconCloudUpload,
+  IconHistory,
   IconLogout,
+  IconRefresh,
   IconUserCircle,
+  IconWorld,
   IconX,
 } from "@tabler/icons";
 import Head from "next/head";
@@ -18,10 +22,13 @@ import React from "react";
 import { TooltipActionIcon } from "../components/TooltipActionIcon";
 import { useCurrentUser } from "../hooks/useCurrentUser";
 import logout from "app/auth/mutations/logout";
+import getLabels from "app/labels/queries/getLabels";
 import { resolves } from "app/lib/async";
 import pullTracks from "app/spotify/mutations/pullTracks";
 import pushTracks from "app/spotify/mutations/pushTracks";
 import getTracks from "app/tracks/queries/getTracks";
+import updateTimeZone from "app/users/mutations/updateTimeZone";
+import getCurrentUser from "app/users/queries/getCurrentUser";
 
 const Layout: BlitzLayout<{
   title?: string;
@@ -30,10 +37,14 @@ const Layout: BlitzLayout<{
 }> = ({ title, children, navbar }) => {
   const user = useCurrentUser();
   const router = useRouter();
+  // The time zone of the user's device, which they can choose to interpret dates in
+  const deviceTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
   const [pullTracksMutation, { isLoading: pullLoading }] = useMutation(pullTracks);
+  const [resyncTracksMutation, { isLoading: resyncLoading }] = useMutation(pullTracks);
   const [pushTracksMutation, { isLoading: pushLoading }] = useMutation(pushTracks);
   const [logoutMutation] = useMutation(logout);
+  const [updateTimeZoneMutation] = useMutation(updateTimeZone);
 
   function successNotification(message: string) {
     showNotification({
@@ -89,7 +100,7 @@ const Layout: BlitzLayout<{
                   variant="filled"
                   color="white"
                   onClick={async () => {
-                    let succeeded = await resolves(pullTracksMutation());
+                    let succeeded = await resolves(pullTracksMutation({}));
                     await invalidateQuery(getTracks);
 
                     if (succeeded) {
@@ -102,17 +113,50 @@ const Layout: BlitzLayout<{
                 >
                   <IconCloudDownload />
                 </TooltipActionIcon>
+                <TooltipActionIcon
+                  label="Resync all tracks from Spotify, removing unliked tracks"
+                  size="lg"
+                  variant="filled"
+                  color="white"
+                  onClick={async () => {
+                    try {
+                      const {
+                        data: { tracksAdded, tracksRemoved },
+                      } = await resyncTracksMutation({ full: true });
+                      successNotification(
+                        `Resyncing tracks succeeded! Added ${tracksAdded} and removed ${tracksRemoved} tracks.`,
+                      );
+                    } catch (err) {
+                      failureNotification("Resyncing tracks failed!");
+                    }
+                    await invalidateQuery(getTracks);
+                    await invalidateQuery(getLabels);
+                  }}
+                  loading={resyncLoading}
+                >
+                  <IconRefresh />
+                </TooltipActionIcon>
                 <TooltipActionIcon
                   label="Push playlists to Spotify"
                   size="lg"
                   variant="filled"
                   color="white"
                   onClick={async () => {
-                    let succeeded = await resolves(pushTracksMutation());
-                    if (succeeded) {
-                      successNotification("Pushing playlists succeeded!");
-                    } else {
-                      failureNotification("Pushing playlists failed!");
+                    try {
+                      const {
+                        data: { errors },
+                      } = await pushTracksMutation();
+                      if (errors.length === 0) {
+                        successNotification("Pushing playlists succeeded!");
+                      } else {
+                        failureNotification(
+                          `Pushing ${errors.length} playlists failed! See the sync history for details.`,
+                        );
+                      }
+                    } catch (err) {
+                      failureNotification(
+                        "Pushing playlists failed! See the sync history for details.",
+                      );
                     }
                   }}
                   loading={pushLoading}
@@ -137,6 +181,29 @@ const Layout: BlitzLayout<{
                     </ActionIcon>
                   </Menu.Target>
                   <Menu.Dropdown>
+                    <Menu.Label>Time zone: {user.timeZone}</Menu.Label>
+                    {user.timeZone !== deviceTimeZone && (
+                      <Menu.Item
+                        icon={<IconWorld />}
+                        onClick={async () => {
+                          await updateTimeZoneMutation({ timeZone: deviceTimeZone });
+                          await invalidateQuery(getCurrentUser);
+                          await invalidateQuery(getTracks);
+                        }}
+                      >
+                        Use {deviceTimeZone}
+                      </Menu.Item>
+                    )}
+                    <Link href={Routes.SyncSettingsPage()}>
+                      <Menu.Item component="a" icon={<IconClock />}>
+                        Sync schedule
+                      </Menu.Item>
+                    </Link>
+                    <Link href={Routes.SyncHistoryPage()}>
+                      <Menu.Item component="a" icon={<IconHistory />}>
+                        Sync history
+                      </Menu.Item>
+                    </Link>
                     <Menu.Item
                       icon={<IconLogout />}
                       onClick={async () => {
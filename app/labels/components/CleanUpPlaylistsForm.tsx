@@ -0,0 +1,110 @@
+import { Routes } from "@blitzjs/next";
+import { invalidateQuery, useMutation, useQuery } from "@blitzjs/rpc";
+import { Avatar, Box, Button, Checkbox, Group, Stack, Text, Title } from "@mantine/core";
+import { useForm } from "@mantine/form";
+import { showNotification } from "@mantine/notifications";
+import { IconCheck, IconTrash, IconX } from "@tabler/icons";
+import { useRouter } from "next/router";
+import { TooltipActionIcon } from "app/core/components/TooltipActionIcon";
+import { handleAsyncErrors } from "app/lib/async";
+import unfollowPlaylists from "app/spotify/mutations/unfollowPlaylists";
+import getOrphanedPlaylists from "app/spotify/queries/getOrphanedPlaylists";
+import getSpotifyPlaylists from "app/spotify/queries/getSpotifyPlaylists";
+
+export default function CleanUpPlaylistsForm(): JSX.Element {
+  const router = useRouter();
+  const [
+    {
+      data: { playlists },
+    },
+  ] = useQuery(getOrphanedPlaylists, {});
+  const [unfollowPlaylistsMutation, { isLoading: isRemoving }] = useMutation(unfollowPlaylists);
+
+  const form = useForm({
+    // The user chooses which playlists to remove
+    initialValues: { playlistIds: [] as string[] },
+    validate: {
+      playlistIds: (value) => (value.length === 0 ? "Choose at least one playlist" : null),
+    },
+  });
+
+  // Leave the clean up playlists form
+  function close(): Promise<boolean> {
+    return router.push(Routes.LabelsPage({ page: router.query.page }));
+  }
+
+  return (
+    <Box
+      component="form"
+      onSubmit={form.onSubmit(({ playlistIds }) => {
+        handleAsyncErrors(
+          (async () => {
+            const {
+              data: { playlistsRemoved },
+            } = await unfollowPlaylistsMutation({ playlistIds });
+            showNotification({
+              message: `Removed ${playlistsRemoved} playlists from Spotify`,
+              color: "green",
+              icon: <IconCheck />,
+            });
+            await invalidateQuery(getOrphanedPlaylists);
+            await invalidateQuery(getSpotifyPlaylists);
+            await close();
+          })(),
+        );
+      })}
+      sx={{
+        width: "30em",
+        display: "flex",
+        flexDirection: "column",
+        gap: "1em",
+      }}
+    >
+      <Box sx={{ display: "flex", flexDirection: "row", alignItems: "center" }}>
+        <Title order={2} sx={{ flex: 1 }}>
+          Clean up playlists
+        </Title>
+        <TooltipActionIcon label="Close" onClick={() => handleAsyncErrors(close())}>
+          <IconX />
+        </TooltipActionIcon>
+      </Box>
+      <Text color="dimmed" size="sm">
+        These playlists belonged to labels that were deleted. Removing them unfollows them on
+        Spotify.
+      </Text>
+      {playlists.length === 0 ? (
+        <Text>There aren&apos;t any playlists to clean up.</Text>
+      ) : (
+        <Checkbox.Group orientation="vertical" {...form.getInputProps("playlistIds")}>
+          {playlists.map((playlist) => (
+            <Checkbox
+              key={playlist.id}
+              value={playlist.id}
+              label={
+                <Group spacing="xs" noWrap>
+                  <Avatar src={playlist.thumbnailUrl} size="sm" />
+                  <Stack spacing={0}>
+                    <Text weight="bold">{playlist.name}</Text>
+                    <Text color="dimmed" size="sm">
+                      {playlist.trackCount} tracks
+                    </Text>
+                  </Stack>
+                </Group>
+              }
+            />
+          ))}
+        </Checkbox.Group>
+      )}
+      <Button
+        type="submit"
+        color="red"
+        leftIcon={<IconTrash />}
+        loading={isRemoving}
+        disabled={playlists.length === 0}
+        sx={{ width: "10em", alignSelf: "center", marginBottom: "1em" }}
+      >
+        {isRemoving ? "Removing..." : "Remove"}
+      </Button>
+    </Box>
+  );
+}
@@ -6,8 +6,10 @@ import { IconX } from "@tabler/icons";
 import { useRouter } from "next/router";
 import createLabel from "../mutations/createLabel";
 import getLabels from "../queries/getLabels";
+import SmartCriteriaErrorMessage from "./SmartCriteriaErrorMessage";
 import SmartCriteriaInput from "./SmartCriteriaInput";
 import { TooltipActionIcon } from "app/core/components/TooltipActionIcon";
+import { InvalidSmartCriteriaError } from "app/labels/errors";
 import { handleAsyncErrors } from "app/lib/async";
 
 export default function CreateLabelForm(): JSX.Element {
@@ -29,10 +31,22 @@ export default function CreateLabelForm(): JSX.Element {
       onSubmit={form.onSubmit(({ name, smartLabel, smartCriteria }) => {
         handleAsyncErrors(
           (async () => {
-            await createLabelMutation({
-              name,
-              smartCriteria: smartLabel ? smartCriteria : null,
-            });
+            try {
+              await createLabelMutation({
+                name,
+                smartCriteria: smartLabel ? smartCriteria : null,
+              });
+            } catch (err) {
+              // Show the reason that the criteria was rejected next to the criteria input
+              if (err instanceof InvalidSmartCriteriaError) {
+                form.setFieldError(
+                  "smartCriteria",
+                  <SmartCriteriaErrorMessage criteria={smartCriteria} error={err.criteriaError} />,
+                );
+                return;
+              }
+              throw err;
+            }
             await invalidateQuery(getLabels);
             await close();
           })(),
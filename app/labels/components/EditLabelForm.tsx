@@ -1,17 +1,21 @@
 import { Routes } from "@blitzjs/next";
 import { invalidateQuery, useMutation, useQuery } from "@blitzjs/rpc";
-import { Box, Button, TextInput, Title } from "@mantine/core";
+import { Box, Button, Checkbox, List, Text, TextInput, Textarea, Title } from "@mantine/core";
 import { useForm } from "@mantine/form";
 import { openConfirmModal } from "@mantine/modals";
 import { IconTrash, IconX } from "@tabler/icons";
 import { useRouter } from "next/router";
 import deleteLabel from "../mutations/deleteLabel";
 import editLabel from "../mutations/editLabel";
+import getDependentLabels from "../queries/getDependentLabels";
 import getLabel from "../queries/getLabel";
 import getLabels from "../queries/getLabels";
+import SmartCriteriaErrorMessage from "./SmartCriteriaErrorMessage";
 import SmartCriteriaInput from "./SmartCriteriaInput";
 import { TooltipActionIcon } from "app/core/components/TooltipActionIcon";
+import { InvalidSmartCriteriaError } from "app/labels/errors";
 import { handleAsyncErrors } from "app/lib/async";
+import { normalizeSmartCriteria } from "app/lib/smartLabel";
 
 export type EditLabelProps = {
   labelId: number;
@@ -19,27 +23,64 @@ export type EditLabelProps = {
 
 export default function EditLabelForm({ labelId }: EditLabelProps): JSX.Element {
   const router = useRouter();
-  const [{ name, smartCriteria }] = useQuery(getLabel, { labelId });
+  const [label] = useQuery(getLabel, { labelId });
+  const { name, smartCriteria } = label;
+  const [dependentLabels] = useQuery(getDependentLabels, { labelId });
   const [editLabelMutation, { isLoading: isSaving }] = useMutation(editLabel);
   const [deleteLabelMutation, { isLoading: isDeleting }] = useMutation(deleteLabel);
 
   const form = useForm({
-    initialValues: { name, smartCriteria: smartCriteria ?? "" },
+    initialValues: {
+      name,
+      smartCriteria: smartCriteria === null ? "" : normalizeSmartCriteria(smartCriteria),
+      playlistName: label.playlistName,
+      playlistDescription: label.playlistDescription,
+      playlistPublic: label.playlistPublic,
+      playlistCollaborative: label.playlistCollaborative,
+    },
   });
 
   // Open the confirm delete dialog
-  // The returned promise resolves to false if the user clicked cancel, true if
-  // the user clicked confirm
-  function confirmDelete(): Promise<boolean> {
+  // The returned promise resolves to null if the user clicked cancel, or the delete options if the
+  // user clicked confirm
+  function confirmDelete(): Promise<{ unfollowPlaylist: boolean } | null> {
+    // Only remove the label's playlist from Spotify if the user opts into it, otherwise it can be
+    // removed later from the clean up playlists form
+    let unfollowPlaylist = false;
     return new Promise((resolve) => {
       openConfirmModal({
         title: "Confirm Delete",
         centered: true,
-        children: "Are you sure you want to delete this label?",
+        children: (
+          <>
+            <Text>Are you sure you want to delete this label?</Text>
+            {dependentLabels.length > 0 && (
+              <>
+                <Text mt="sm">
+                  These smart labels reference this label and will stop matching its tracks:
+                </Text>
+                <List size="sm">
+                  {dependentLabels.map((label) => (
+                    <List.Item key={label.id}>{label.name}</List.Item>
+                  ))}
+                </List>
+              </>
+            )}
+            {label.playlist !== null && (
+              <Checkbox
+                mt="sm"
+                label="Also remove its playlist from Spotify"
+                onChange={(event) => {
+                  unfollowPlaylist = event.currentTarget.checked;
+                }}
+              />
+            )}
+          </>
+        ),
         labels: { confirm: "Delete", cancel: "Cancel" },
         confirmProps: { color: "red" },
-        onCancel: () => resolve(false),
-        onConfirm: () => resolve(true),
+        onCancel: () => resolve(null),
+        onConfirm: () => resolve({ unfollowPlaylist }),
       });
     });
   }
@@ -55,14 +96,41 @@ export default function EditLabelForm({ labelId }: EditLabelProps): JSX.Element
       onSubmit={form.onSubmit((values) => {
         handleAsyncErrors(
           (async () => {
-            await editLabelMutation({
-              labelId,
-              fields: {
-                name: values.name,
-                smartCriteria: smartCriteria === null ? undefined : values.smartCriteria,
-              },
-            });
-            await Promise.all([invalidateQuery(getLabels), invalidateQuery(getLabel, { labelId })]);
+            try {
+              await editLabelMutation({
+                labelId,
+                fields: {
+                  name: values.name,
+                  // Leave the stored criteria text alone unless the user actually edited it
+                  smartCriteria:
+                    smartCriteria === null || !form.isDirty("smartCriteria")
+                      ? undefined
+                      : values.smartCriteria,
+                  playlistName: values.playlistName,
+                  playlistDescription: values.playlistDescription,
+                  playlistPublic: values.playlistPublic,
+                  playlistCollaborative: values.playlistCollaborative,
+                },
+              });
+            } catch (err) {
+              // Show the reason that the criteria was rejected next to the criteria input
+              if (err instanceof InvalidSmartCriteriaError) {
+                form.setFieldError(
+                  "smartCriteria",
+                  <SmartCriteriaErrorMessage
+                    criteria={values.smartCriteria}
+                    error={err.criteriaError}
+                  />,
+                );
+                return;
+              }
+              throw err;
+            }
+            await Promise.all([
+              invalidateQuery(getLabels),
+              invalidateQuery(getLabel, { labelId }),
+              invalidateQuery(getDependentLabels),
+            ]);
             await close();
           })(),
         );
@@ -90,6 +158,30 @@ export default function EditLabelForm({ labelId }: EditLabelProps): JSX.Element
           {...form.getInputProps("smartCriteria")}
         />
       )}
+      <Title order={4}>Spotify playlist</Title>
+      <Text color="dimmed" size="sm">
+        {"{label}"} is replaced by the label&apos;s name, {"{criteria}"} by its smart criteria, and{" "}
+        {"{updated}"} by the date that the playlist&apos;s tracks last changed. The playlist is
+        updated the next time that playlists are pushed.
+      </Text>
+      <TextInput required label="Name" {...form.getInputProps("playlistName")} />
+      <Textarea
+        label="Description"
+        autosize
+        maxRows={4}
+        {...form.getInputProps("playlistDescription")}
+      />
+      <Checkbox
+        label="Public"
+        disabled={form.values.playlistCollaborative}
+        {...form.getInputProps("playlistPublic", { type: "checkbox" })}
+        // Spotify doesn't allow collaborative playlists to be public
+        checked={form.values.playlistPublic && !form.values.playlistCollaborative}
+      />
+      <Checkbox
+        label="Collaborative"
+        {...form.getInputProps("playlistCollaborative", { type: "checkbox" })}
+      />
       <Button
         type="submit"
         loading={isSaving}
@@ -105,12 +197,13 @@ export default function EditLabelForm({ labelId }: EditLabelProps): JSX.Element
         leftIcon={<IconTrash />}
         sx={{ width: "10em", alignSelf: "center" }}
         onClick={async () => {
-          if (!(await confirmDelete())) {
+          const options = await confirmDelete();
+          if (!options) {
             return;
           }
 
-          await deleteLabelMutation({ labelId });
-          await invalidateQuery(getLabels);
+          await deleteLabelMutation({ labelId, ...options });
+          await Promise.all([invalidateQuery(getLabels), invalidateQuery(getDependentLabels)]);
           await close();
         }}
       >
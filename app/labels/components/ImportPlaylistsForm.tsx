@@ -0,0 +1,144 @@
+import { Routes } from "@blitzjs/next";
+import { invalidateQuery, useMutation, useQuery } from "@blitzjs/rpc";
+import { Anchor, Avatar, Box, Button, Checkbox, Group, Stack, Text, Title } from "@mantine/core";
+import { useForm } from "@mantine/form";
+import { showNotification } from "@mantine/notifications";
+import { IconCheck, IconX } from "@tabler/icons";
+import { useRouter } from "next/router";
+import getLabels from "../queries/getLabels";
+import logout from "app/auth/mutations/logout";
+import { TooltipActionIcon } from "app/core/components/TooltipActionIcon";
+import { handleAsyncErrors } from "app/lib/async";
+import { MissingScopeError } from "app/spotify/errors";
+import importPlaylists from "app/spotify/mutations/importPlaylists";
+import getSpotifyPlaylists from "app/spotify/queries/getSpotifyPlaylists";
+import getTracks from "app/tracks/queries/getTracks";
+
+export default function ImportPlaylistsForm(): JSX.Element {
+  const router = useRouter();
+  const [
+    {
+      data: { playlists },
+    },
+  ] = useQuery(getSpotifyPlaylists, {});
+  const [importPlaylistsMutation, { isLoading: isImporting }] = useMutation(importPlaylists);
+  const [logoutMutation] = useMutation(logout);
+
+  const form = useForm({
+    initialValues: { playlistIds: [] as string[] },
+    validate: {
+      playlistIds: (value) => (value.length === 0 ? "Choose at least one playlist" : null),
+    },
+  });
+
+  // Leave the import playlists form
+  function close(): Promise<boolean> {
+    return router.push(Routes.LabelsPage({ page: router.query.page }));
+  }
+
+  // Log out and log in again to grant the app the Spotify scopes that it is missing, coming back
+  // to this form afterwards
+  async function logInAgain(): Promise<void> {
+    await logoutMutation();
+    await router.push(Routes.LoginPage({ next: router.asPath }));
+  }
+
+  // Explain why importing failed
+  function showImportError(err: unknown): void {
+    showNotification({
+      message:
+        err instanceof MissingScopeError ? (
+          <>
+            Playlist Generator needs permission to add tracks to your favorites.{" "}
+            <Anchor component="button" onClick={() => handleAsyncErrors(logInAgain())}>
+              Log in again
+            </Anchor>{" "}
+            to grant it.
+          </>
+        ) : (
+          "Importing playlists failed!"
+        ),
+      color: "red",
+      icon: <IconX />,
+      autoClose: !(err instanceof MissingScopeError),
+    });
+  }
+
+  return (
+    <Box
+      component="form"
+      onSubmit={form.onSubmit(({ playlistIds }) => {
+        handleAsyncErrors(
+          (async () => {
+            try {
+              const {
+                data: { labelsCreated, tracksAdded },
+              } = await importPlaylistsMutation({ playlistIds });
+              showNotification({
+                message: `Created ${labelsCreated} labels and added ${tracksAdded} tracks to your favorites`,
+                color: "green",
+                icon: <IconCheck />,
+              });
+            } catch (err) {
+              showImportError(err);
+              throw err;
+            }
+            await invalidateQuery(getLabels);
+            await invalidateQuery(getTracks);
+            await close();
+          })(),
+        );
+      })}
+      sx={{
+        width: "30em",
+        display: "flex",
+        flexDirection: "column",
+        gap: "1em",
+      }}
+    >
+      <Box sx={{ display: "flex", flexDirection: "row", alignItems: "center" }}>
+        <Title order={2} sx={{ flex: 1 }}>
+          Import playlists
+        </Title>
+        <TooltipActionIcon label="Close" onClick={() => handleAsyncErrors(close())}>
+          <IconX />
+        </TooltipActionIcon>
+      </Box>
+      <Text color="dimmed" size="sm">
+        Each playlist becomes a label attached to its tracks. Tracks that aren&apos;t in your
+        favorites yet will be added to them.
+      </Text>
+      {playlists.length === 0 ? (
+        <Text>You don&apos;t have any Spotify playlists to import.</Text>
+      ) : (
+        <Checkbox.Group orientation="vertical" {...form.getInputProps("playlistIds")}>
+          {playlists.map((playlist) => (
+            <Checkbox
+              key={playlist.id}
+              value={playlist.id}
+              label={
+                <Group spacing="xs" noWrap>
+                  <Avatar src={playlist.thumbnailUrl} size="sm" />
+                  <Stack spacing={0}>
+                    <Text weight="bold">{playlist.name}</Text>
+                    <Text color="dimmed" size="sm">
+                      {playlist.trackCount} tracks{playlist.owned ? "" : " · Followed"}
+                    </Text>
+                  </Stack>
+                </Group>
+              }
+            />
+          ))}
+        </Checkbox.Group>
+      )}
+      <Button
+        type="submit"
+        loading={isImporting}
+        disabled={playlists.length === 0}
+        sx={{ width: "10em", alignSelf: "center", marginBottom: "1em" }}
+      >
+        {isImporting ? "Importing..." : "Import"}
+      </Button>
+    </Box>
+  );
+}
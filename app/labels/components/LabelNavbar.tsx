@@ -7,7 +7,9 @@ import {
   IconChevronsLeft,
   IconChevronsRight,
   IconCirclePlus,
+  IconPlaylistAdd,
   IconTag,
+  IconTrash,
   IconWand,
 } from "@tabler/icons";
 import Link from "next/link";
@@ -16,6 +18,7 @@ import React from "react";
 import { TooltipActionIcon } from "app/core/components/TooltipActionIcon";
 import getLabels from "app/labels/queries/getLabels";
 import { handleAsyncErrors } from "app/lib/async";
+import { normalizeSmartCriteria } from "app/lib/smartLabel";
 
 const ITEMS_PER_PAGE = 100;
 
@@ -59,7 +62,8 @@ export default function LabelNavbar(): JSX.Element {
               </Text>
               {label.smartCriteria && (
                 <Text color="dimmed" size="sm">
-                  <IconWand size={12} style={{ marginRight: "0.25em" }} /> {label.smartCriteria}
+                  <IconWand size={12} style={{ marginRight: "0.25em" }} />{" "}
+                  {normalizeSmartCriteria(label.smartCriteria)}
                 </Text>
               )}
             </UnstyledButton>
@@ -74,6 +78,22 @@ export default function LabelNavbar(): JSX.Element {
           </Text>
         </UnstyledButton>
       </Link>
+      <Link href={Routes.ImportPlaylistsPage({ page })}>
+        <UnstyledButton component="a" sx={buttonStyles}>
+          <Text weight="bold" sx={{ display: "flex", alignItems: "center" }}>
+            <IconPlaylistAdd size={16} style={{ marginRight: "0.25em" }} color="green" />
+            Import playlists...
+          </Text>
+        </UnstyledButton>
+      </Link>
+      <Link href={Routes.CleanUpPlaylistsPage({ page })}>
+        <UnstyledButton component="a" sx={buttonStyles}>
+          <Text weight="bold" sx={{ display: "flex", alignItems: "center" }}>
+            <IconTrash size={16} style={{ marginRight: "0.25em" }} color="red" />
+            Clean up playlists...
+          </Text>
+        </UnstyledButton>
+      </Link>
       <Box sx={{ flex: 1 }} />
 
       {pageCount > 1 || page > 1 ? (
@@ -0,0 +1,32 @@
+import { Mark, Text } from "@mantine/core";
+import { SmartCriteriaError } from "app/lib/smartLabel";
+
+export type SmartCriteriaErrorMessageProps = {
+  // The criteria that failed to parse
+  criteria: string;
+
+  // The error describing why the criteria failed to parse
+  error: SmartCriteriaError;
+};
+
+// Explain why a smart criteria is invalid and highlight the offending part of the criteria
+export default function SmartCriteriaErrorMessage({
+  criteria,
+  error,
+}: SmartCriteriaErrorMessageProps): JSX.Element {
+  const { offset, length } = error;
+
+  return (
+    <>
+      <Text color="red" weight="bold">
+        {error.message}
+      </Text>
+      <Text sx={(theme) => ({ fontFamily: theme.fontFamilyMonospace, whiteSpace: "pre-wrap" })}>
+        {criteria.slice(0, offset)}
+        {/* Highlight a blank space if the criteria ended unexpectedly */}
+        <Mark color="red">{length > 0 ? criteria.slice(offset, offset + length) : " "}</Mark>
+        {criteria.slice(offset + length)}
+      </Text>
+    </>
+  );
+}
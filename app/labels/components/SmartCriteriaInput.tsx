@@ -1,11 +1,15 @@
 import { useQuery } from "@blitzjs/rpc";
-import { Text, TextInput, TextInputProps } from "@mantine/core";
+import { Autocomplete, AutocompleteProps, Text } from "@mantine/core";
 import { useDebouncedValue } from "@mantine/hooks";
 import { assert } from "blitz";
 import { useState } from "react";
 import searchSmartCriteria from "../queries/searchSmartCriteria";
+import SmartCriteriaErrorMessage from "./SmartCriteriaErrorMessage";
+import { useSearchCompletions } from "app/tracks/hooks/useSearchCompletions";
 
-export default function SmartCriteriaInput(props: TextInputProps): JSX.Element {
+export default function SmartCriteriaInput(
+  props: Omit<AutocompleteProps, "data" | "onChange"> & { onChange?: (value: string) => void },
+): JSX.Element {
   assert(typeof props.value === "string", "SmartCriteriaInput value is not a string");
   const [value, setValue] = useState(props.value);
   const [debouncedValue] = useDebouncedValue(value, 200);
@@ -17,21 +21,24 @@ export default function SmartCriteriaInput(props: TextInputProps): JSX.Element {
     },
     { enabled: debouncedValue.length > 0 },
   );
+  const completions = useSearchCompletions(value);
 
   return (
     <>
-      <TextInput
+      <Autocomplete
         {...props}
+        data={completions}
+        // The completions are already filtered to the ones that match the criteria
+        filter={() => true}
+        limit={10}
         value={value}
-        onChange={(event: React.ChangeEvent<HTMLInputElement>) => {
-          setValue(event.target.value);
-          props.onChange?.(event);
+        onChange={(newValue) => {
+          setValue(newValue);
+          props.onChange?.(newValue);
         }}
       />
-      {result?.success === false && result.error.message && (
-        <Text color="red" weight="bold">
-          {result.error.message}
-        </Text>
+      {result?.success === false && (
+        <SmartCriteriaErrorMessage criteria={debouncedValue} error={result.error} />
       )}
       {result?.success && (
         <Text>
@@ -0,0 +1,18 @@
+import SuperJson from "superjson";
+import { SmartCriteriaError } from "app/lib/smartLabel";
+
+// Thrown by mutations when a label's smart criteria is invalid
+// `criteriaError` describes where and why the criteria failed to parse
+export class InvalidSmartCriteriaError extends Error {
+  name = "InvalidSmartCriteriaError";
+
+  constructor(public criteriaError: SmartCriteriaError) {
+    super(`Invalid smart criteria: ${criteriaError.message}`);
+  }
+}
+
+// Register the error so that it keeps its class and properties when it is sent to the client
+SuperJson.registerClass(InvalidSmartCriteriaError, {
+  identifier: "InvalidSmartCriteriaError",
+  allowProps: ["message", "stack", "criteriaError"],
+});
@@ -0,0 +1,200 @@
+/**
+ * @jest-environment node
+ */
+
+import { performance } from "perf_hooks";
+import { chunk, range } from "lodash";
+import log from "loglevel";
+import { evaluateSmartCriteria } from "app/lib/smartLabel";
+
+// These benchmarks seed a real database with tens of thousands of tracks, so they only run when
+// BENCHMARK is set, i.e. `BENCHMARK=1 npm test -- labelCounts`
+const describeBenchmark = process.env.BENCHMARK ? describe : describe.skip;
+
+describeBenchmark("countSmartLabelTracks", () => {
+  // The database is loaded lazily so that the client isn't created when the benchmarks are skipped
+  let db: typeof import("db").default;
+  let countSmartLabelTracks: typeof import("./labelCounts").countSmartLabelTracks;
+  let invalidateLabelCounts: typeof import("./labelCounts").invalidateLabelCounts;
+  let loadSmartLabelCriteria: typeof import("./smartLabelCriteria").loadSmartLabelCriteria;
+
+  const numTracks = 30000;
+  const prefix = `benchmark-${Date.now()}`;
+  let userId: number;
+
+  const smartCriteria = [
+    "clean",
+    "explicit && added<1y",
+    "released<2000 || released>=2020",
+    "released=1990s && !explicit",
+    'name:"love"',
+    'label:"Favorites" && !label:"Skips"',
+    'label:"Favorites" || label:"Skips" sort:added limit:500',
+    "unlabeled",
+    'label:"Old" && (label:"Clean" || label:"Skips")',
+    'added>2022 && !name:"remix" && (released<1y || label:"Favorites")',
+  ];
+
+  // Load the user's smart labels in the shape that countSmartLabelTracks expects
+  async function loadSmartLabels() {
+    const labels = await db.label.findMany({
+      where: { userId, smartCriteria: { not: null } },
+      select: { id: true, smartCriteria: true, trackCount: true },
+    });
+    return labels.flatMap(({ id, smartCriteria, trackCount }) =>
+      smartCriteria === null ? [] : [{ id, smartCriteria, trackCount }],
+    );
+  }
+
+  // Count the tracks matching each smart label by evaluating its criteria against every track
+  async function countInMemory(): Promise<Map<number, number>> {
+    const tracks = await db.track.findMany({
+      where: { userId },
+      include: { album: true, artists: true, labels: true },
+    });
+    const smartLabels = await loadSmartLabelCriteria(userId);
+    const counts = new Map<number, number>();
+    (await loadSmartLabels()).forEach(({ id, smartCriteria }) => {
+      const limit = Number(/limit:(\d+)/.exec(smartCriteria)?.[1] ?? Infinity);
+      const count = tracks.filter((track) => {
+        const result = evaluateSmartCriteria(smartCriteria, track, smartLabels, "UTC");
+        return result.success && result.matches;
+      }).length;
+      counts.set(id, Math.min(count, limit));
+    });
+    return counts;
+  }
+
+  // Count the tracks matching each smart label and measure how long it took
+  async function timeCounts(): Promise<{ counts: Map<number, number>; elapsed: number }> {
+    const labels = await loadSmartLabels();
+    const start = performance.now();
+    const counts = await countSmartLabelTracks(userId, labels);
+    return { counts, elapsed: performance.now() - start };
+  }
+
+  beforeAll(async () => {
+    // Report the timings
+    log.setLevel("info");
+    ({ default: db } = await import("db"));
+    ({ countSmartLabelTracks, invalidateLabelCounts } = await import("./labelCounts"));
+    ({ loadSmartLabelCriteria } = await import("./smartLabelCriteria"));
+
+    ({ id: userId } = await db.user.create({
+      data: {
+        spotifyId: prefix,
+        accessToken: "",
+        accessTokenExpiresAt: new Date(),
+        refreshToken: "",
+      },
+    }));
+
+    await db.album.createMany({
+      data: range(100).map((index) => ({
+        id: `${prefix}-album-${index}`,
+        name: `Album ${index}`,
+        thumbnailUrl: "",
+        dateReleased: new Date(1970 + (index % 55), index % 12, 1),
+      })),
+    });
+
+    for (const indices of chunk(range(numTracks), 5000)) {
+      // eslint-disable-next-line no-await-in-loop
+      await db.track.createMany({
+        data: indices.map((index) => ({
+          userId,
+          spotifyId: `${prefix}-track-${index}`,
+          name: index % 7 === 0 ? `Love Song ${index} (Remix)` : `Song ${index}`,
+          albumId: `${prefix}-album-${index % 100}`,
+          dateAdded: new Date(Date.now() - index * 60 * 60 * 1000),
+          explicit: index % 3 === 0,
+        })),
+      });
+    }
+
+    // Create dumb labels linked to overlapping subsets of the tracks
+    const trackIds = (
+      await db.track.findMany({ where: { userId }, select: { id: true }, orderBy: { id: "asc" } })
+    ).map(({ id }) => ({ id }));
+    const dumbLabels: [string, number][] = [
+      ["Favorites", 5],
+      ["Skips", 11],
+      ["Old", 4],
+      ["Clean", 9],
+    ];
+    for (const [name, interval] of dumbLabels) {
+      // eslint-disable-next-line no-await-in-loop
+      await db.label.create({
+        data: {
+          userId,
+          name,
+          tracks: { connect: trackIds.filter((_, index) => index % interval === 0) },
+        },
+      });
+    }
+
+    await db.label.createMany({
+      data: smartCriteria.map((criteria, index) => ({
+        userId,
+        name: `Smart ${index}`,
+        smartCriteria: criteria,
+      })),
+    });
+  }, 120000);
+
+  afterAll(async () => {
+    await db.user.deleteMany({ where: { id: userId } });
+    await db.album.deleteMany({ where: { id: { startsWith: prefix } } });
+    await db.$disconnect();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("counts the tracks in the database in a single batch", async () => {
+    const findMany = jest.spyOn(db.track, "findMany");
+    const count = jest.spyOn(db.track, "count");
+    const transaction = jest.spyOn(db, "$transaction");
+
+    const { counts, elapsed } = await timeCounts();
+    log.info(`Counted ${smartCriteria.length} smart labels in ${elapsed.toFixed(0)}ms`);
+
+    expect(findMany).not.toHaveBeenCalled();
+    // One count query per label, all sent in one batch along with one batch of cache updates
+    expect(count).toHaveBeenCalledTimes(smartCriteria.length);
+    expect(transaction).toHaveBeenCalledTimes(2);
+    expect(counts).toEqual(await countInMemory());
+  }, 60000);
+
+  it("reuses cached counts", async () => {
+    const { counts: uncachedCounts } = await timeCounts();
+    const count = jest.spyOn(db.track, "count");
+    const transaction = jest.spyOn(db, "$transaction");
+
+    const { counts, elapsed } = await timeCounts();
+    log.info(`Loaded ${smartCriteria.length} cached counts in ${elapsed.toFixed(0)}ms`);
+
+    // Nothing is counted or written back to the cache
+    expect(count).not.toHaveBeenCalled();
+    expect(transaction).not.toHaveBeenCalled();
+    expect(counts).toEqual(uncachedCounts);
+  });
+
+  it("recounts after the counts are invalidated", async () => {
+    await timeCounts();
+
+    // Remove the "Favorites" label from all tracks
+    await db.label.update({
+      where: { id: (await db.label.findFirstOrThrow({ where: { userId, name: "Favorites" } })).id },
+      data: { tracks: { set: [] } },
+    });
+    await invalidateLabelCounts(userId);
+    const count = jest.spyOn(db.track, "count");
+
+    const { counts } = await timeCounts();
+
+    expect(count).toHaveBeenCalledTimes(smartCriteria.length);
+    expect(counts).toEqual(await countInMemory());
+  }, 60000);
+});
@@ -0,0 +1,83 @@
+import { loadSmartLabelCriteria } from "app/labels/smartLabelCriteria";
+import { parseSmartCriteria } from "app/lib/smartLabel";
+import db, { SmartLabelCount } from "db";
+
+// How long a cached count can be used for, because criteria with relative dates match different
+// tracks as time passes even when the user's tracks and labels don't change
+const countLifetime = 10 * 60 * 1000;
+
+type SmartLabel = {
+  id: number;
+  smartCriteria: string;
+  trackCount: SmartLabelCount | null;
+};
+
+// Count the number of tracks matching each of a user's smart labels, reusing cached counts that
+// are still valid and caching the rest
+// Return a map of label ids to track counts
+export async function countSmartLabelTracks(
+  userId: number,
+  labels: SmartLabel[],
+): Promise<Map<number, number>> {
+  const countedAt = new Date();
+  const { labelCountsInvalidatedAt, timeZone } = await db.user.findFirstOrThrow({
+    where: { id: userId },
+    select: { labelCountsInvalidatedAt: true, timeZone: true },
+  });
+
+  const counts = new Map<number, number>();
+  const staleLabels = labels.filter(({ id, trackCount }) => {
+    if (
+      trackCount !== null &&
+      trackCount.countedAt > labelCountsInvalidatedAt &&
+      countedAt.getTime() - trackCount.countedAt.getTime() < countLifetime
+    ) {
+      counts.set(id, trackCount.count);
+      return false;
+    }
+    return true;
+  });
+  if (staleLabels.length === 0) {
+    return counts;
+  }
+
+  // Labels with invalid criteria don't match any tracks
+  const smartLabels = await loadSmartLabelCriteria(userId);
+  const countableLabels = staleLabels.flatMap(({ id, smartCriteria }) => {
+    const result = parseSmartCriteria(smartCriteria, smartLabels, timeZone);
+    counts.set(id, 0);
+    return result.success ? [{ id, filter: result.filter, limit: result.limit }] : [];
+  });
+
+  // Count the tracks of all of the labels in a single batch of queries
+  const trackCounts = await db.$transaction(
+    countableLabels.map(({ filter }) => db.track.count({ where: { userId, ...filter } })),
+  );
+  countableLabels.forEach(({ id, limit }, index) => {
+    const count = trackCounts[index] ?? 0;
+    counts.set(id, limit === null ? count : Math.min(count, limit));
+  });
+
+  // Replace the stale cached counts
+  const staleIds = staleLabels.map(({ id }) => id);
+  await db.$transaction([
+    db.smartLabelCount.deleteMany({ where: { labelId: { in: staleIds } } }),
+    db.smartLabelCount.createMany({
+      data: staleIds.map((labelId) => ({ labelId, countedAt, count: counts.get(labelId) ?? 0 })),
+      // Another request may have cached the same counts concurrently
+      skipDuplicates: true,
+    }),
+  ]);
+
+  return counts;
+}
+
+// Invalidate the cached track counts of all of a user's smart labels
+// Call this whenever the user's tracks, labels, or anything else that smart criteria depend on
+// changes
+export async function invalidateLabelCounts(userId: number): Promise<void> {
+  await db.user.update({
+    where: { id: userId },
+    data: { labelCountsInvalidatedAt: new Date() },
+  });
+}
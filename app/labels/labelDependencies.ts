@@ -0,0 +1,24 @@
+import { getReferencedLabels } from "app/lib/smartLabel";
+import db from "db";
+
+// Find the user's smart labels with criteria that depend on a label, meaning that they reference the
+// label's name and no other label has the same name
+// References are still satisfied by other labels with the same name, so those don't count
+export async function findDependentLabels(userId: number, labelId: number, name: string) {
+  const sameNameCount = await db.label.count({
+    where: { userId, name, id: { not: labelId } },
+  });
+  if (sameNameCount > 0) {
+    return [];
+  }
+
+  // Narrow down the labels in the database before checking their criteria precisely
+  const labels = await db.label.findMany({
+    where: { userId, id: { not: labelId }, smartCriteria: { contains: `"${name}"` } },
+    orderBy: [{ createdAt: "asc" }],
+  });
+  return labels.filter(
+    (label): label is typeof label & { smartCriteria: string } =>
+      label.smartCriteria !== null && getReferencedLabels(label.smartCriteria).includes(name),
+  );
+}
@@ -1,5 +1,7 @@
 import { resolver } from "@blitzjs/rpc";
 import { z } from "zod";
+import { invalidateLabelCounts } from "app/labels/labelCounts";
+import { assertValidLabelCriteria } from "app/labels/smartLabelCriteria";
 import { nonEmptyString } from "app/lib/zodTypes";
 import db from "db";
 
@@ -12,7 +14,7 @@ const CreateLabel = z.object({
 });
 
 /*
- * Create a new label.
+ * Create a new label, throwing an InvalidSmartCriteriaError if its smart criteria is invalid.
  */
 export default resolver.pipe(
   resolver.zod(CreateLabel),
@@ -20,6 +22,10 @@ export default resolver.pipe(
   async ({ name, smartCriteria }, ctx) => {
     const userId = ctx.session.userId;
 
+    if (smartCriteria !== null) {
+      await assertValidLabelCriteria(userId, undefined, name, smartCriteria);
+    }
+
     // Create the label
     const { id } = await db.label.create({
       data: {
@@ -28,6 +34,7 @@ export default resolver.pipe(
         smartCriteria,
       },
     });
+    await invalidateLabelCounts(userId);
 
     return { id };
   },
@@ -1,30 +1,53 @@
 import { resolver } from "@blitzjs/rpc";
 import { NotFoundError } from "blitz";
 import { z } from "zod";
+import { invalidateLabelCounts } from "app/labels/labelCounts";
 import { primaryKey } from "app/lib/zodTypes";
+import { unfollowPlaylist } from "app/spotify/spotifyApi";
 import db from "db";
 
 const DeleteLabel = z.object({
   // The id of the label to delete
   labelId: primaryKey,
+
+  // Whether to also remove the label's playlist from the user's Spotify library
+  unfollowPlaylist: z.boolean().default(false),
 });
 
 /*
- * Delete an existing label.
+ * Delete an existing label, optionally removing its playlist from Spotify.
  */
 export default resolver.pipe(
   resolver.zod(DeleteLabel),
   resolver.authorize(),
-  async ({ labelId }, ctx) => {
+  async ({ labelId, unfollowPlaylist: unfollow }, ctx) => {
     const userId = ctx.session.userId;
 
-    // Delete the label
-    const { count } = await db.label.deleteMany({
-      where: { id: labelId, userId },
-    });
+    // Remove the playlist first so that it can still be found if removing it fails
+    const playlist = await db.playlist.findFirst({ where: { labelId, userId } });
+    if (playlist && unfollow) {
+      const user = await db.user.findFirstOrThrow({ where: { id: userId } });
+      await unfollowPlaylist(user, playlist.spotifyId);
+    }
+
+    // Delete the label, remembering its playlist if it was kept so that it can be cleaned up later
+    const [{ count }] = await db.$transaction([
+      db.label.deleteMany({
+        where: { id: labelId, userId },
+      }),
+      ...(playlist && !unfollow
+        ? [
+            db.deletedPlaylist.createMany({
+              data: [{ userId, spotifyId: playlist.spotifyId }],
+              skipDuplicates: true,
+            }),
+          ]
+        : []),
+    ]);
     if (count === 0) {
       throw new NotFoundError();
     }
+    await invalidateLabelCounts(userId);
 
     return { success: true };
   },
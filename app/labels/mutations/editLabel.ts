@@ -1,5 +1,9 @@
 import { resolver } from "@blitzjs/rpc";
 import { z } from "zod";
+import { invalidateLabelCounts } from "app/labels/labelCounts";
+import { findDependentLabels } from "app/labels/labelDependencies";
+import { assertValidLabelCriteria } from "app/labels/smartLabelCriteria";
+import { renameLabelReferences } from "app/lib/smartLabel";
 import { nonEmptyString, primaryKey } from "app/lib/zodTypes";
 import db from "db";
 
@@ -14,12 +18,19 @@ const EditLabel = z.object({
 
       // The new smart criteria of the label
       smartCriteria: nonEmptyString,
+
+      // The new settings of the label's Spotify playlist
+      playlistName: nonEmptyString,
+      playlistDescription: z.string(),
+      playlistPublic: z.boolean(),
+      playlistCollaborative: z.boolean(),
     })
     .partial(),
 });
 
 /*
- * Modify an existing label.
+ * Modify an existing label, updating the smart labels that reference it if it is renamed.
+ * Throws an InvalidSmartCriteriaError if its smart criteria is invalid.
  */
 export default resolver.pipe(
   resolver.zod(EditLabel),
@@ -27,12 +38,38 @@ export default resolver.pipe(
   async ({ labelId, fields }, ctx) => {
     const userId = ctx.session.userId;
 
-    // Update the label
     const where = { id: labelId, userId };
-    await db.label.updateMany({
+    const { name: oldName, smartCriteria: oldSmartCriteria } = await db.label.findFirstOrThrow({
       where,
-      data: fields,
     });
+    const { name: newName, smartCriteria: newSmartCriteria } = fields;
+
+    // Renaming a smart label can also create a reference cycle, so validate its criteria either way
+    const smartCriteria = newSmartCriteria ?? oldSmartCriteria;
+    if (smartCriteria !== null) {
+      await assertValidLabelCriteria(userId, labelId, newName ?? oldName, smartCriteria);
+    }
+
+    // Rewrite the criteria of smart labels that reference the label by its old name
+    const referenceUpdates =
+      newName !== undefined && newName !== oldName
+        ? (await findDependentLabels(userId, labelId, oldName)).map(({ id, smartCriteria }) =>
+            db.label.update({
+              where: { id },
+              data: { smartCriteria: renameLabelReferences(smartCriteria, oldName, newName) },
+            }),
+          )
+        : [];
+
+    // Update the label and the references to it together
+    await db.$transaction([
+      db.label.updateMany({
+        where,
+        data: fields,
+      }),
+      ...referenceUpdates,
+    ]);
+    await invalidateLabelCounts(userId);
 
     const label = await db.label.findFirstOrThrow({ where });
     return label;
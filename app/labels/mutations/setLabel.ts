@@ -1,5 +1,6 @@
 import { resolver } from "@blitzjs/rpc";
 import { z } from "zod";
+import { invalidateLabelCounts } from "app/labels/labelCounts";
 import { primaryKey } from "app/lib/zodTypes";
 import db from "db";
 
@@ -43,6 +44,7 @@ export default resolver.pipe(
         labels: mutation,
       },
     });
+    await invalidateLabelCounts(userId);
 
     return { success: true };
   },
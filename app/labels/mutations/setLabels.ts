@@ -1,5 +1,6 @@
 import { resolver } from "@blitzjs/rpc";
 import { z } from "zod";
+import { invalidateLabelCounts } from "app/labels/labelCounts";
 import { primaryKey } from "app/lib/zodTypes";
 import db from "db";
 
@@ -42,6 +43,7 @@ export default resolver.pipe(
         },
       },
     });
+    await invalidateLabelCounts(userId);
 
     return { success: true };
   },
@@ -0,0 +1,24 @@
+import { resolver } from "@blitzjs/rpc";
+import { z } from "zod";
+import { findDependentLabels } from "app/labels/labelDependencies";
+import { primaryKey } from "app/lib/zodTypes";
+import db from "db";
+
+const GetDependentLabels = z.object({
+  // The id of the label to find the dependents of
+  labelId: primaryKey,
+});
+
+/*
+ * Load the smart labels whose criteria would stop matching the label if it were deleted.
+ */
+export default resolver.pipe(
+  resolver.zod(GetDependentLabels),
+  resolver.authorize(),
+  async ({ labelId }, ctx) => {
+    const userId = ctx.session.userId;
+    const { name } = await db.label.findFirstOrThrow({ where: { id: labelId, userId } });
+    const labels = await findDependentLabels(userId, labelId, name);
+    return labels.map(({ id, name }) => ({ id, name }));
+  },
+);
@@ -0,0 +1,35 @@
+import { resolver } from "@blitzjs/rpc";
+import { loadSmartLabelCriteria } from "app/labels/smartLabelCriteria";
+import { parseSmartCriteria } from "app/lib/smartLabel";
+import { loadUserTimeZone } from "app/users/userTimeZone";
+import db from "db";
+
+/*
+ * Report the user's smart labels whose stored criteria no longer parses, along with the reason.
+ */
+export default resolver.pipe(resolver.authorize(), async (_, ctx) => {
+  const userId = ctx.session.userId;
+
+  const labels = await db.label.findMany({
+    where: { userId, smartCriteria: { not: null } },
+    orderBy: [{ createdAt: "asc" }],
+  });
+  const smartLabels = await loadSmartLabelCriteria(userId);
+  const timeZone = await loadUserTimeZone(userId);
+
+  const invalidLabels = labels.flatMap(({ id, name, smartCriteria }) => {
+    if (smartCriteria === null) {
+      return [];
+    }
+
+    const result = parseSmartCriteria(smartCriteria, smartLabels, timeZone);
+    return result.success ? [] : [{ id, name, smartCriteria, error: result.error }];
+  });
+
+  return {
+    success: true as const,
+    data: {
+      labels: invalidLabels,
+    },
+  };
+});
@@ -16,7 +16,10 @@ export default resolver.pipe(
   resolver.authorize(),
   async ({ labelId }, ctx) => {
     const userId = ctx.session.userId;
-    const label = await db.label.findFirstOrThrow({ where: { id: labelId, userId } });
+    const label = await db.label.findFirstOrThrow({
+      where: { id: labelId, userId },
+      include: { playlist: { select: { id: true } } },
+    });
     return label;
   },
 );
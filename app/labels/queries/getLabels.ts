@@ -1,7 +1,7 @@
 import { resolver } from "@blitzjs/rpc";
 import { paginate } from "blitz";
 import { z } from "zod";
-import { generatePrismaFilter } from "app/lib/smartLabel";
+import { countSmartLabelTracks } from "app/labels/labelCounts";
 import db from "db";
 
 const GetLabels = z.object({
@@ -10,19 +10,6 @@ const GetLabels = z.object({
   take: z.number().nonnegative().optional(),
 });
 
-// Count the number of tracks matching a smart label
-async function countTracks(userId: number, smartCriteria: string): Promise<number> {
-  const where = generatePrismaFilter(smartCriteria);
-  if (where === null) {
-    return 0;
-  }
-  const tracks = await db.track.findMany({
-    where: { userId, ...where },
-    select: { id: true },
-  });
-  return tracks.length;
-}
-
 export default resolver.pipe(
   resolver.zod(GetLabels),
   resolver.authorize(),
@@ -45,19 +32,21 @@ export default resolver.pipe(
           ...paginateArgs,
           where,
           orderBy: [{ createdAt: "asc" }],
-          include: { _count: true },
+          include: { _count: true, trackCount: true },
         }),
     });
 
-    const labelsWithCount = await Promise.all(
-      labels.map(async ({ _count, ...label }) => {
-        const numTracks =
-          label.smartCriteria === null
-            ? _count.tracks
-            : await countTracks(userId, label.smartCriteria);
-        return { ...label, numTracks };
-      }),
+    // Dumb labels are counted along with the labels themselves and smart labels are counted in bulk
+    const smartLabelCounts = await countSmartLabelTracks(
+      userId,
+      labels.flatMap(({ id, smartCriteria, trackCount }) =>
+        smartCriteria === null ? [] : [{ id, smartCriteria, trackCount }],
+      ),
     );
+    const labelsWithCount = labels.map(({ _count, trackCount, ...label }) => ({
+      ...label,
+      numTracks: label.smartCriteria === null ? _count.tracks : smartLabelCounts.get(label.id) ?? 0,
+    }));
 
     return {
       labels: labelsWithCount,
@@ -1,7 +1,10 @@
 import { resolver } from "@blitzjs/rpc";
 import { z } from "zod";
-import { generatePrismaFilter } from "app/lib/smartLabel";
+import { loadSmartLabelCriteria } from "app/labels/smartLabelCriteria";
+import { parseSmartCriteria } from "app/lib/smartLabel";
 import { nonEmptyString } from "app/lib/zodTypes";
+import { findOrderedTracks } from "app/tracks/orderedTracks";
+import { loadUserTimeZone } from "app/users/userTimeZone";
 import db from "db";
 
 const SearchSmartCriteria = z.object({
@@ -18,26 +21,30 @@ export default resolver.pipe(
   async ({ smartCriteria }, ctx) => {
     const userId = ctx.session.userId;
 
-    const where = generatePrismaFilter(smartCriteria);
-    if (where === null) {
+    const result = parseSmartCriteria(
+      smartCriteria,
+      await loadSmartLabelCriteria(userId),
+      await loadUserTimeZone(userId),
+    );
+    if (!result.success) {
       return {
         success: false as const,
-        error: {
-          message: "Invalid smart criteria",
-        },
+        error: result.error,
       };
     }
 
-    const matches = await db.track.findMany({
-      where: { userId, ...where },
-      take: 500,
-      select: { name: true },
-    });
+    // Preview the first tracks in the same order that they will be pushed to the playlist
+    const { tracks, count } = await findOrderedTracks(
+      { userId, ...result.filter },
+      result,
+      { take: 5 },
+      (findArgs) => db.track.findMany({ ...findArgs, select: { id: true, name: true } }),
+    );
     return {
       success: true as const,
       data: {
-        matchCount: matches.length,
-        matchExamples: matches.slice(0, 5).map((track) => track.name),
+        matchCount: count,
+        matchExamples: tracks.map((track) => track.name),
       },
     };
   },
@@ -0,0 +1,44 @@
+import { InvalidSmartCriteriaError } from "app/labels/errors";
+import { SmartLabelCriteria, parseSmartCriteria } from "app/lib/smartLabel";
+import { loadUserTimeZone } from "app/users/userTimeZone";
+import db from "db";
+
+// Load the criteria of all of a user's smart labels so that references to them in other criteria
+// can be expanded
+// The criteria of the label with the id `excludeLabelId` is left out, if provided
+export async function loadSmartLabelCriteria(
+  userId: number,
+  excludeLabelId?: number,
+): Promise<SmartLabelCriteria> {
+  const labels = await db.label.findMany({
+    where: { userId, smartCriteria: { not: null }, id: { not: excludeLabelId } },
+    select: { name: true, smartCriteria: true },
+  });
+
+  const smartLabels: SmartLabelCriteria = new Map();
+  labels.forEach(({ name, smartCriteria }) => {
+    if (smartCriteria !== null) {
+      smartLabels.set(name, [...(smartLabels.get(name) ?? []), smartCriteria]);
+    }
+  });
+  return smartLabels;
+}
+
+// Throw an InvalidSmartCriteriaError if a label's new smart criteria is invalid, including if it
+// would make the label reference itself through other smart labels
+// `labelId` is the id of the label being edited, or undefined if it is being created
+export async function assertValidLabelCriteria(
+  userId: number,
+  labelId: number | undefined,
+  name: string,
+  smartCriteria: string,
+): Promise<void> {
+  // Replace the label's stored criteria with its new criteria
+  const smartLabels = await loadSmartLabelCriteria(userId, labelId);
+  smartLabels.set(name, [...(smartLabels.get(name) ?? []), smartCriteria]);
+
+  const result = parseSmartCriteria(smartCriteria, smartLabels, await loadUserTimeZone(userId));
+  if (!result.success) {
+    throw new InvalidSmartCriteriaError(result.error);
+  }
+}
@@ -1,4 +1,4 @@
-import { resolves } from "./async";
+import { makeConcurrencyLimit, resolves, sleep } from "./async";
 
 describe("resolves", () => {
   it("returns true if the promise resolves", async () => {
@@ -9,3 +9,33 @@ describe("resolves", () => {
     await expect(resolves(Promise.reject())).resolves.toBe(false);
   });
 });
+
+describe("makeConcurrencyLimit", () => {
+  it("runs at most the limit of tasks at a time", async () => {
+    const limit = makeConcurrencyLimit(2);
+    let running = 0;
+    let maxRunning = 0;
+    const started: number[] = [];
+    const results = await Promise.all(
+      [30, 10, 20, 10, 0].map((delay, index) =>
+        limit(async () => {
+          started.push(index);
+          maxRunning = Math.max(maxRunning, ++running);
+          await sleep(delay);
+          --running;
+          return index;
+        }),
+      ),
+    );
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(maxRunning).toBe(2);
+    expect(started).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("frees the slot of tasks that reject", async () => {
+    const limit = makeConcurrencyLimit(1);
+    await expect(limit(() => Promise.reject(new Error("Failed")))).rejects.toThrow("Failed");
+    await expect(limit(() => Promise.resolve("Succeeded"))).resolves.toBe("Succeeded");
+  });
+});
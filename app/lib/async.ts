@@ -14,3 +14,38 @@ export async function resolves(promise: Promise<unknown>): Promise<boolean> {
     return false;
   }
 }
+
+// Return a promise that resolves after a number of milliseconds
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Create a function that runs async tasks, running at most `concurrency` of them at a time and
+// queueing the rest in the order that they were started
+export function makeConcurrencyLimit(
+  concurrency: number,
+): <T>(task: () => Promise<T>) => Promise<T> {
+  let running = 0;
+  const queue: (() => void)[] = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (running >= concurrency) {
+      // Wait for a running task to hand over its slot
+      await new Promise<void>((resolve) => queue.push(resolve));
+    } else {
+      ++running;
+    }
+
+    try {
+      return await task();
+    } finally {
+      // Hand the slot to the next queued task, or release it if nothing is waiting
+      const next = queue.shift();
+      if (next) {
+        next();
+      } else {
+        --running;
+      }
+    }
+  };
+}
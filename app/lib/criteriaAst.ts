@@ -0,0 +1,148 @@
+// The abstract syntax tree that smart criteria strings are parsed into
+
+// The unit of a relative date
+export type DateUnit = "d" | "w" | "m" | "y";
+
+// The precision of an absolute date
+export type DatePrecision = "d" | "m" | "y" | "decade";
+
+export type Comparison = "=" | "<" | "<=" | ">" | ">=";
+
+// A distance before now, like "3m"
+export type RelativeDate = {
+  type: "relative";
+  amount: number;
+  unit: DateUnit;
+};
+
+// A specific decade, year, month, or day, like "1990s", "2020", "2020-04", or "4-1-2020"
+// `unit` is the precision of the date, and the fields more precise than the unit are 1
+export type AbsoluteDate = {
+  type: "absolute";
+  unit: DatePrecision;
+  year: number;
+  month: number;
+  day: number;
+};
+
+export type CalendarPeriod =
+  | "today"
+  | "yesterday"
+  | "this-week"
+  | "last-week"
+  | "this-month"
+  | "last-month"
+  | "this-year"
+  | "last-year";
+
+// A calendar period relative to now, like "last-month"
+export type CalendarDate = {
+  type: "calendar";
+  period: CalendarPeriod;
+};
+
+// A span of time from the start of one period to the end of another, like "2020..2021"
+export type DateRange = {
+  type: "range";
+  start: AbsoluteDate | CalendarDate;
+  end: AbsoluteDate | CalendarDate;
+};
+
+export type CriteriaDate = RelativeDate | AbsoluteDate | CalendarDate | DateRange;
+
+// A filter that takes no arguments, like "clean"
+export type FlagNode = {
+  type: "clean" | "explicit" | "unlabeled";
+};
+
+// A filter that matches a string, like `artist:"Name"`
+export type TextNode = {
+  type: "name" | "label" | "album" | "artist" | "genre";
+  value: string;
+};
+
+// A filter that compares a date, like "added>=3m"
+export type DateNode = {
+  type: "added" | "released";
+  operator: Comparison;
+  date: CriteriaDate;
+};
+
+// A filter that compares a number, like "tempo>=120"
+// Tempo is in beats per minute, energy and danceability range from 0 to 1, and popularity ranges
+// from 0 to 100
+export type NumberNode = {
+  type: "tempo" | "energy" | "danceability" | "popularity";
+  operator: Comparison;
+  value: number;
+};
+
+// A length of time, like "3m30s"
+// `precision` is the smallest unit that was written, so "3m" stands for 3:00 up to 4:00 and
+// "3m30s" stands for 3:30 up to 3:31
+export type Duration = {
+  seconds: number;
+  precision: "m" | "s";
+};
+
+// A filter that compares a track's duration, like "duration<3m30s"
+export type DurationNode = {
+  type: "duration";
+  operator: Comparison;
+  duration: Duration;
+};
+
+// The names of the pitch classes, indexed by pitch class
+export const keyNames = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"] as const;
+
+// A filter that matches a track's key, like `key="C#"`
+// `value` is the pitch class of the key, where 0 is C, 1 is C#, and so on
+export type KeyNode = {
+  type: "key";
+  value: number;
+};
+
+export type NotNode = {
+  type: "not";
+  operand: CriteriaNode;
+};
+
+export type BinaryNode = {
+  type: "and" | "or";
+  left: CriteriaNode;
+  right: CriteriaNode;
+};
+
+export type CriteriaNode =
+  | FlagNode
+  | TextNode
+  | DateNode
+  | NumberNode
+  | DurationNode
+  | KeyNode
+  | NotNode
+  | BinaryNode;
+
+export type SortField = "added" | "released" | "name" | "random";
+
+export type SortDirection = "asc" | "desc";
+
+// The order of the tracks that criteria matches, like "sort:released asc"
+// `direction` is null if it wasn't specified, and is always null for random order
+export type SortClause = {
+  field: SortField;
+  direction: SortDirection | null;
+};
+
+// The order and maximum number of tracks that criteria selects, null if the criteria doesn't
+// specify them
+export type CriteriaClauses = {
+  sort: SortClause | null;
+  limit: number | null;
+};
+
+// A complete criteria string: a filter optionally followed by clauses that order and limit the
+// tracks it matches, like "clean sort:added limit:100"
+export type CriteriaQuery = CriteriaClauses & {
+  filter: CriteriaNode;
+};
@@ -0,0 +1,353 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+} from "date-fns";
+import { utcToZonedTime, zonedTimeToUtc } from "date-fns-tz";
+import {
+  AbsoluteDate,
+  CalendarDate,
+  CalendarPeriod,
+  Comparison,
+  CriteriaDate,
+  CriteriaNode,
+  DatePrecision,
+  DateRange,
+  DateUnit,
+  Duration,
+  SortClause,
+} from "./criteriaAst";
+import { Prisma } from "db";
+
+type DateTimeFilter = Prisma.DateTimeFilter;
+type TrackWhereInput = Prisma.TrackWhereInput;
+type TrackOrderByInput = Prisma.TrackOrderByWithRelationInput;
+
+export type CompileOptions = {
+  // Look up the parsed criteria of the smart labels with a given name so that references to them
+  // can be expanded, using null for criteria that failed to parse
+  // Label names aren't unique, so a name can resolve to multiple criteria
+  resolveSmartLabel?: (name: string) => (CriteriaNode | null)[];
+
+  // The IANA time zone that dates in the criteria are interpreted in, like "America/New_York"
+  // Defaults to the server's time zone
+  timeZone?: string;
+};
+
+// Thrown when a smart label reference can't be expanded
+// `labelPath` contains the chain of label names from the original criteria to the invalid label
+export class LabelReferenceError extends Error {
+  constructor(message: string, public labelPath: string[]) {
+    super(message);
+  }
+}
+
+const addFuncs = {
+  d: addDays,
+  w: addWeeks,
+  m: addMonths,
+  y: addYears,
+};
+
+const precisionAddFuncs: Record<DatePrecision, (date: Date, amount: number) => Date> = {
+  d: addDays,
+  m: addMonths,
+  y: addYears,
+  decade: (date, amount) => addYears(date, amount * 10),
+};
+
+// For each calendar period, the function to find the start of the current period, the function to
+// move between periods, and how many periods to move from the current period
+const calendarPeriods: Record<
+  CalendarPeriod,
+  [(date: Date) => Date, (date: Date, amount: number) => Date, number]
+> = {
+  today: [startOfDay, addDays, 0],
+  yesterday: [startOfDay, addDays, -1],
+  "this-week": [startOfWeek, addWeeks, 0],
+  "last-week": [startOfWeek, addWeeks, -1],
+  "this-month": [startOfMonth, addMonths, 0],
+  "last-month": [startOfMonth, addMonths, -1],
+  "this-year": [startOfYear, addYears, 0],
+  "last-year": [startOfYear, addYears, -1],
+};
+
+// A span of time or numbers, including `start` but not `end`
+type Period<Value = Date> = {
+  start: Value;
+  end: Value;
+};
+
+// date-fns does calendar math in the server's time zone, so dates in another time zone are
+// represented by a "zoned" date whose local time is the wall-clock time in that time zone
+// Convert an instant into a zoned date
+function toZoned(date: Date, timeZone: string | undefined): Date {
+  return timeZone === undefined ? date : utcToZonedTime(date, timeZone);
+}
+
+// Convert a zoned date back into an instant
+function fromZoned(date: Date, timeZone: string | undefined): Date {
+  return timeZone === undefined ? date : zonedTimeToUtc(date, timeZone);
+}
+
+// Determine the span of time covered by an absolute date or calendar period
+// getPeriod(2020) is from 1/1/2020 to 1/1/2021
+// getPeriod(4-1-2020) is from 4/1/2020 to 4/2/2020
+// getPeriod(last-month) is from the start of last month to the start of this month
+function getPeriod(date: AbsoluteDate | CalendarDate, timeZone: string | undefined): Period {
+  if (date.type === "absolute") {
+    const start = new Date(date.year, date.month - 1, date.day);
+    return {
+      start: fromZoned(start, timeZone),
+      end: fromZoned(precisionAddFuncs[date.unit](start, 1), timeZone),
+    };
+  }
+
+  const [startOf, addFunc, offset] = calendarPeriods[date.period];
+  const start = addFunc(startOf(toZoned(new Date(), timeZone)), offset);
+  return {
+    start: fromZoned(start, timeZone),
+    end: fromZoned(addFunc(start, 1), timeZone),
+  };
+}
+
+// Determine whether a date range ends before it starts, which means that it matches nothing
+// isReversedRange(today..last-year) is true
+export function isReversedRange(range: DateRange, timeZone?: string): boolean {
+  return getPeriod(range.start, timeZone).start >= getPeriod(range.end, timeZone).end;
+}
+
+// Generate a comparison query against a span of time or numbers
+// makeSpanComparison('=', period) means "values during the period"
+// makeSpanComparison('<', period) means "values before the period starts"
+// makeSpanComparison('>', period) means "values after the period ends"
+// makeSpanComparison('<=', period) means "values before the period ends"
+function makeSpanComparison<Value>(
+  operator: Comparison,
+  { start, end }: Period<Value>,
+): { gte?: Value; lt?: Value } {
+  if (operator === "=") {
+    // The model equals the period if it falls between the start and end of the period
+    return { gte: start, lt: end };
+  } else if (operator === "<") {
+    return { lt: start };
+  } else if (operator === "<=") {
+    return { lt: end };
+  } else if (operator === ">") {
+    return { gte: end };
+  } else if (operator === ">=") {
+    return { gte: start };
+  } else {
+    throw new Error("Invalid operator");
+  }
+}
+
+// Generate a comparison query a certain distance before now
+// makeRelativeComparison('=', 3, 'd') means "dates between 2 and 4 days before now"
+// makeRelativeComparison('=', 3, 'm') means "dates between 2 and 4 months before now"
+// makeRelativeComparison('>', 3, 'd') means "dates more than 3 days before now"
+// makeRelativeComparison('<=', 3, 'y') means "dates 3 or fewer years before now"
+function makeRelativeComparison(
+  operator: Comparison,
+  amount: number,
+  unit: DateUnit,
+  timeZone: string | undefined,
+): DateTimeFilter {
+  // Move in the user's time zone so that months and years account for daylight saving time there
+  const now = toZoned(new Date(), timeZone);
+  const before = fromZoned(addFuncs[unit](now, -amount), timeZone);
+  const after = fromZoned(addFuncs[unit](now, amount), timeZone);
+  if (operator === "=") {
+    return { gt: before, lt: after };
+  } else if (operator === "<") {
+    return { gt: before };
+  } else if (operator === "<=") {
+    return { gte: before };
+  } else if (operator === ">") {
+    return { lt: before };
+  } else if (operator === ">=") {
+    return { lte: before };
+  } else {
+    throw new Error("Invalid operator");
+  }
+}
+
+// Generate a comparison query for a date in a given time zone
+export function makeDateComparison(
+  operator: Comparison,
+  date: CriteriaDate,
+  timeZone?: string,
+): DateTimeFilter {
+  if (date.type === "relative") {
+    return makeRelativeComparison(operator, date.amount, date.unit, timeZone);
+  } else if (date.type === "range") {
+    return makeSpanComparison(operator, {
+      start: getPeriod(date.start, timeZone).start,
+      end: getPeriod(date.end, timeZone).end,
+    });
+  }
+
+  return makeSpanComparison(operator, getPeriod(date, timeZone));
+}
+
+// A comparison query against a number
+type NumberFilter = { gt?: number; gte?: number; lt?: number; lte?: number };
+
+// Generate a comparison query for a number
+// Numbers are compared exactly, except that equality matches the whole span of numbers that the
+// number stands for, which defaults to the numbers that round to it
+// makeNumberComparison('=', 120) means "numbers from 119.5 up to 120.5"
+// makeNumberComparison('=', 0.4) means "numbers from 0.35 up to 0.45"
+// makeNumberComparison('<', 0.4) means "numbers less than 0.4"
+export function makeNumberComparison(
+  operator: Comparison,
+  value: number,
+  span?: Period<number>,
+): NumberFilter {
+  if (operator === "=") {
+    const decimals = value.toString().split(".")[1]?.length ?? 0;
+    const halfStep = 10 ** -decimals / 2;
+    return makeSpanComparison(operator, span ?? { start: value - halfStep, end: value + halfStep });
+  } else if (operator === "<") {
+    return { lt: value };
+  } else if (operator === "<=") {
+    return { lte: value };
+  } else if (operator === ">") {
+    return { gt: value };
+  } else if (operator === ">=") {
+    return { gte: value };
+  } else {
+    throw new Error("Invalid operator");
+  }
+}
+
+// Generate a comparison query for a duration in milliseconds
+// makeDurationComparison('=', 3m) means "durations from 3:00 up to 4:00"
+// makeDurationComparison('<', 3m30s) means "durations less than 3:30"
+export function makeDurationComparison(operator: Comparison, duration: Duration): NumberFilter {
+  const milliseconds = duration.seconds * 1000;
+  const step = duration.precision === "m" ? 60 * 1000 : 1000;
+  return makeNumberComparison(operator, milliseconds, {
+    start: milliseconds,
+    end: milliseconds + step,
+  });
+}
+
+// Compile a label reference, expanding it if it references smart labels
+function compileLabel(name: string, options: CompileOptions, labelPath: string[]): TrackWhereInput {
+  const filter = { labels: { some: { name } } };
+  const referencedCriteria = options.resolveSmartLabel?.(name) ?? [];
+  if (referencedCriteria.length === 0) {
+    // The filter doesn't reference a smart label
+    return filter;
+  }
+
+  const path = [...labelPath, name];
+  if (labelPath.includes(name)) {
+    throw new LabelReferenceError(
+      `smart label "${name}" references itself (${path.map((label) => `"${label}"`).join(" → ")})`,
+      path,
+    );
+  }
+
+  // Dumb labels with the same name are still matched through the label relation
+  return {
+    OR: [
+      filter,
+      ...referencedCriteria.map((criteria) => {
+        if (criteria === null) {
+          throw new LabelReferenceError(`smart label "${name}" has invalid smart criteria`, path);
+        }
+        return compileCriteria(criteria, options, path);
+      }),
+    ],
+  };
+}
+
+// Compile a criteria AST into a prisma `where` clause
+// `labelPath` contains the names of the smart labels currently being expanded and is used to
+// detect cycles
+export function compileCriteria(
+  node: CriteriaNode,
+  options: CompileOptions = {},
+  labelPath: string[] = [],
+): TrackWhereInput {
+  switch (node.type) {
+    case "clean":
+      return { explicit: false };
+    case "explicit":
+      return { explicit: true };
+    case "unlabeled":
+      return { labels: { none: {} } };
+    case "name":
+      return { name: { contains: node.value, mode: "insensitive" } };
+    case "label":
+      return compileLabel(node.value, options, labelPath);
+    case "album":
+      return { album: { name: node.value } };
+    case "artist":
+      return { artists: { some: { name: node.value } } };
+    case "genre":
+      return {
+        artists: { some: { searchableGenres: { contains: node.value, mode: "insensitive" } } },
+      };
+    case "added":
+      return { dateAdded: makeDateComparison(node.operator, node.date, options.timeZone) };
+    case "released":
+      return {
+        album: { dateReleased: makeDateComparison(node.operator, node.date, options.timeZone) },
+      };
+    case "tempo":
+    case "energy":
+    case "danceability":
+    case "popularity":
+      // Tracks without the number don't match, and excluding them explicitly makes negating the
+      // comparison match them instead of comparing to null
+      return { [node.type]: { not: null, ...makeNumberComparison(node.operator, node.value) } };
+    case "duration":
+      return {
+        durationMs: { not: null, ...makeDurationComparison(node.operator, node.duration) },
+      };
+    case "key":
+      return { key: { not: null, equals: node.value } };
+    case "not":
+      return { NOT: compileCriteria(node.operand, options, labelPath) };
+    case "and":
+      return {
+        AND: [
+          compileCriteria(node.left, options, labelPath),
+          compileCriteria(node.right, options, labelPath),
+        ],
+      };
+    case "or":
+      return {
+        OR: [
+          compileCriteria(node.left, options, labelPath),
+          compileCriteria(node.right, options, labelPath),
+        ],
+      };
+  }
+}
+
+// Generate the order of the tracks selected by criteria, with the most recently added tracks first
+// by default
+// Prisma can't order randomly, so random order is by id and the tracks must be shuffled afterwards
+export function compileSort(sort: SortClause | null): TrackOrderByInput[] {
+  switch (sort?.field) {
+    case undefined:
+      return [{ dateAdded: "desc" }];
+    case "added":
+      return [{ dateAdded: sort.direction ?? "desc" }];
+    case "released":
+      return [{ album: { dateReleased: sort.direction ?? "desc" } }, { dateAdded: "desc" }];
+    case "name":
+      return [{ name: sort.direction ?? "asc" }, { dateAdded: "desc" }];
+    case "random":
+      return [{ id: "asc" }];
+  }
+}
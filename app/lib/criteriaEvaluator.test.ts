@@ -0,0 +1,318 @@
+import { AbsoluteDate, CalendarDate, Comparison, CriteriaDate, CriteriaNode } from "./criteriaAst";
+import { compileCriteria } from "./criteriaCompiler";
+import { EvaluatedTrack, evaluateCriteria } from "./criteriaEvaluator";
+import { formatCriteria } from "./criteriaFormatter";
+import { evaluateSmartCriteria, parseCriteriaAst, parseSmartCriteria } from "./smartLabel";
+
+jest.useFakeTimers().setSystemTime(new Date(2022, 3, 1));
+
+// Create a seeded pseudo-random number generator so that failures are reproducible
+function makeRandom(seed: number) {
+  let state = seed;
+  const random = (): number => {
+    // mulberry32
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number): number => min + Math.floor(random() * (max - min + 1));
+  const pick = <T>(items: readonly T[]): T => items[int(0, items.length - 1)] as T;
+  const subset = <T>(items: readonly T[]): T[] => items.filter(() => random() < 0.5);
+  return { random, int, pick, subset };
+}
+
+type Random = ReturnType<typeof makeRandom>;
+
+const trackNames = ["Song", "Another Song", "Tune", "SONG OF THE YEAR"];
+const albumNames = ["Album", "Another Album"];
+const artistNames = ["Artist", "Another Artist", "Band"];
+const genres = ["rock", "indie rock", "pop", "shoegaze"];
+const labelNames = ["Dumb", "Other", "Smart"];
+const comparisons: Comparison[] = ["=", "<", "<=", ">", ">="];
+
+function randomDate(random: Random): Date {
+  // Sometimes generate dates exactly on day boundaries to exercise the edges of comparisons
+  const date = new Date(random.int(2019, 2022), random.int(0, 11), random.int(1, 28));
+  if (random.random() < 0.5) {
+    date.setHours(random.int(0, 23), random.int(0, 59));
+  }
+  return date;
+}
+
+function randomPeriodDate(random: Random): AbsoluteDate | CalendarDate {
+  const year = random.int(2019, 2022);
+  return random.pick([
+    (): AbsoluteDate => ({ type: "absolute", unit: "y", year, month: 1, day: 1 }),
+    (): AbsoluteDate => ({ type: "absolute", unit: "decade", year: 2010, month: 1, day: 1 }),
+    (): AbsoluteDate => ({ type: "absolute", unit: "m", year, month: random.int(1, 12), day: 1 }),
+    (): AbsoluteDate => ({
+      type: "absolute",
+      unit: "d",
+      year,
+      month: random.int(1, 12),
+      day: random.int(1, 28),
+    }),
+    (): CalendarDate => ({
+      type: "calendar",
+      period: random.pick([
+        "today",
+        "yesterday",
+        "this-week",
+        "last-week",
+        "this-month",
+        "last-month",
+        "this-year",
+        "last-year",
+      ] as const),
+    }),
+  ])();
+}
+
+function randomCriteriaDate(random: Random): CriteriaDate {
+  if (random.random() < 0.4) {
+    return { type: "relative", amount: random.int(1, 6), unit: random.pick(["d", "w", "m", "y"]) };
+  } else if (random.random() < 0.7) {
+    return randomPeriodDate(random);
+  } else {
+    return { type: "range", start: randomPeriodDate(random), end: randomPeriodDate(random) };
+  }
+}
+
+function randomCriteria(random: Random, depth: number): CriteriaNode {
+  const leafTypes = [
+    () => ({ type: random.pick(["clean", "explicit", "unlabeled"] as const) }),
+    () => ({ type: "name" as const, value: random.pick(["song", "Tune", "year", "x"]) }),
+    () => ({ type: "label" as const, value: random.pick(labelNames) }),
+    () => ({ type: "album" as const, value: random.pick(albumNames) }),
+    () => ({ type: "artist" as const, value: random.pick(artistNames) }),
+    () => ({ type: "genre" as const, value: random.pick(["ROCK", "indie", "pop", "jazz"]) }),
+    () => ({
+      type: random.pick(["tempo", "energy", "danceability", "popularity"] as const),
+      operator: random.pick(comparisons),
+      value: random.pick([0.2, 0.5, 0.55, 1, 20, 120]),
+    }),
+    () => ({
+      type: "duration" as const,
+      operator: random.pick(comparisons),
+      duration: random.pick([
+        { seconds: 180, precision: "m" as const },
+        { seconds: 210, precision: "s" as const },
+        { seconds: 45, precision: "s" as const },
+      ]),
+    }),
+    () => ({ type: "key" as const, value: random.int(0, 11) }),
+    () => ({
+      type: random.pick(["added", "released"] as const),
+      operator: random.pick(comparisons),
+      date: randomCriteriaDate(random),
+    }),
+  ];
+  if (depth <= 0 || random.random() < 0.3) {
+    return random.pick(leafTypes)();
+  }
+
+  const type = random.pick(["not", "and", "or"] as const);
+  if (type === "not") {
+    return { type, operand: randomCriteria(random, depth - 1) };
+  }
+  return {
+    type,
+    left: randomCriteria(random, depth - 1),
+    right: randomCriteria(random, depth - 1),
+  };
+}
+
+function randomTrack(random: Random, id: number): EvaluatedTrack {
+  const now = new Date();
+  const albumId = `album${id}`;
+  return {
+    id,
+    createdAt: now,
+    updatedAt: now,
+    userId: 1,
+    spotifyId: `track${id}`,
+    name: random.pick(trackNames),
+    albumId,
+    album: {
+      id: albumId,
+      createdAt: now,
+      updatedAt: now,
+      name: random.pick(albumNames),
+      thumbnailUrl: "",
+      dateReleased: randomDate(random),
+    },
+    artists: random.subset(artistNames).map((name) => {
+      const artistGenres = random.subset(genres);
+      return {
+        id: name,
+        createdAt: now,
+        updatedAt: now,
+        name,
+        genres: artistGenres,
+        searchableGenres: artistGenres.join("\n"),
+      };
+    }),
+    dateAdded: randomDate(random),
+    explicit: random.random() < 0.5,
+    // Some tracks don't have audio features
+    ...(random.random() < 0.2
+      ? { tempo: null, energy: null, danceability: null, key: null }
+      : {
+          tempo: random.pick([60, 119.5, 120, 120.4, 120.5, 160]),
+          energy: random.pick([0, 0.19, 0.2, 0.249, 0.25, 0.5, 0.95]),
+          danceability: random.pick([0.1, 0.45, 0.5, 0.549, 0.55, 1]),
+          key: random.int(0, 11),
+        }),
+    durationMs: random.pick([null, 44999, 45000, 45500, 180000, 210000, 210999, 239999, 240000]),
+    popularity: random.pick([null, 0, 19, 20, 21, 50, 100]),
+    // Smart labels are never linked to tracks
+    labels: random.subset(["Dumb", "Other"]).map((name, index) => ({
+      id: index,
+      createdAt: now,
+      updatedAt: now,
+      userId: 1,
+      name,
+      smartCriteria: null,
+    })),
+  };
+}
+
+// A minimal, independent implementation of the parts of prisma's filtering semantics that compiled
+// criteria use
+function matchesWhere(record: Record<string, unknown>, where: Record<string, unknown>): boolean {
+  return Object.entries(where).every(([key, filter]): boolean => {
+    if (key === "AND") {
+      return (filter as Record<string, unknown>[]).every((child) => matchesWhere(record, child));
+    } else if (key === "OR") {
+      return (filter as Record<string, unknown>[]).some((child) => matchesWhere(record, child));
+    } else if (key === "NOT") {
+      return !matchesWhere(record, filter as Record<string, unknown>);
+    }
+
+    const value = record[key];
+    const fieldFilter = filter as Record<string, unknown>;
+    if (Array.isArray(value)) {
+      // List relation filter
+      const items = value as Record<string, unknown>[];
+      if (fieldFilter.some) {
+        return items.some((item) =>
+          matchesWhere(item, fieldFilter.some as Record<string, unknown>),
+        );
+      } else if (fieldFilter.none) {
+        return !items.some((item) =>
+          matchesWhere(item, fieldFilter.none as Record<string, unknown>),
+        );
+      }
+    } else if (value instanceof Date) {
+      const time = value.getTime();
+      return Object.entries(fieldFilter).every(([operator, operand]) => {
+        const operandTime = (operand as Date).getTime();
+        return {
+          gt: time > operandTime,
+          gte: time >= operandTime,
+          lt: time < operandTime,
+          lte: time <= operandTime,
+        }[operator];
+      });
+    } else if ((typeof value === "number" || value === null) && typeof filter === "object") {
+      return Object.entries(fieldFilter).every(([operator, operand]) => {
+        if (operator === "not") {
+          return value !== operand;
+        }
+        const number = operand as number;
+        return (
+          value !== null &&
+          {
+            equals: value === number,
+            gt: value > number,
+            gte: value >= number,
+            lt: value < number,
+            lte: value <= number,
+          }[operator]
+        );
+      });
+    } else if (typeof value === "string" && typeof filter === "object") {
+      const insensitive = fieldFilter.mode === "insensitive";
+      const normalize = (text: string) => (insensitive ? text.toLowerCase() : text);
+      return normalize(value).includes(normalize(fieldFilter.contains as string));
+    } else if (typeof value === "object" && value !== null) {
+      // Single relation filter
+      return matchesWhere(value as Record<string, unknown>, fieldFilter);
+    } else {
+      return value === filter;
+    }
+    throw new Error(`Unsupported filter ${JSON.stringify({ [key]: filter })}`);
+  });
+}
+
+describe("evaluateCriteria", () => {
+  // Smart labels that can be referenced by the generated criteria, including one with the same
+  // name as a dumb label
+  const smartLabels = new Map([
+    ["Smart", ['clean && genre:"rock"']],
+    ["Dumb", ['artist:"Band" || released<1y']],
+  ]);
+  const options = {
+    resolveSmartLabel: (name: string) =>
+      (smartLabels.get(name) ?? []).map((criteria) => {
+        const result = parseCriteriaAst(criteria);
+        return result.success ? result.ast : null;
+      }),
+  };
+
+  it("agrees with the prisma filter", () => {
+    const random = makeRandom(1);
+    const tracks = Array.from({ length: 50 }, (_, index) => randomTrack(random, index));
+    for (let iteration = 0; iteration < 300; ++iteration) {
+      const criteria = randomCriteria(random, 4);
+      const filter = compileCriteria(criteria, options);
+      tracks.forEach((track) => {
+        const expected = matchesWhere(track, filter);
+        const actual = evaluateCriteria(criteria, track, options);
+        if (actual !== expected) {
+          throw new Error(
+            `"${formatCriteria(criteria)}" evaluated to ${actual} for ${JSON.stringify(track)}`,
+          );
+        }
+      });
+    }
+  });
+
+  it("generates criteria that match some but not all tracks", () => {
+    const random = makeRandom(2);
+    const tracks = Array.from({ length: 50 }, (_, index) => randomTrack(random, index));
+    const matchCounts = Array.from({ length: 100 }, () => {
+      const criteria = randomCriteria(random, 4);
+      return tracks.filter((track) => evaluateCriteria(criteria, track, options)).length;
+    });
+    expect(matchCounts.some((count) => count > 0 && count < tracks.length)).toBe(true);
+  });
+});
+
+describe("evaluateSmartCriteria", () => {
+  const track = randomTrack(makeRandom(3), 1);
+
+  it("evaluates criteria", () => {
+    expect(evaluateSmartCriteria(track.explicit ? "explicit" : "clean", track)).toEqual({
+      success: true,
+      matches: true,
+    });
+    expect(evaluateSmartCriteria(track.explicit ? "clean" : "explicit", track)).toEqual({
+      success: true,
+      matches: false,
+    });
+  });
+
+  it("reports parse errors", () => {
+    expect(evaluateSmartCriteria("clean &&", track)).toEqual(parseSmartCriteria("clean &&"));
+  });
+
+  it("reports cycles even if evaluation short-circuits", () => {
+    const smartLabels = new Map([["A", ['label:"A"']]]);
+    expect(evaluateSmartCriteria('explicit || clean || label:"A"', track, smartLabels)).toEqual({
+      success: false,
+      error: expect.objectContaining({ message: 'smart label "A" references itself ("A" → "A")' }),
+    });
+  });
+});
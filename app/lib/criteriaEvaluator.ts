@@ -0,0 +1,145 @@
+import { CriteriaNode } from "./criteriaAst";
+import {
+  CompileOptions,
+  LabelReferenceError,
+  makeDateComparison,
+  makeDurationComparison,
+  makeNumberComparison,
+} from "./criteriaCompiler";
+import { Album, Artist, Label, Prisma, Track } from "db";
+
+export type EvaluatedTrack = Track & {
+  album: Album;
+  artists: Artist[];
+  labels: Label[];
+};
+
+// Determine whether a date satisfies a prisma date filter
+function matchesDateFilter(date: Date, filter: Prisma.DateTimeFilter): boolean {
+  const time = date.getTime();
+  const toTime = (value: Date | string) => new Date(value).getTime();
+  return (
+    (typeof filter.gt === "undefined" || time > toTime(filter.gt)) &&
+    (typeof filter.gte === "undefined" || time >= toTime(filter.gte)) &&
+    (typeof filter.lt === "undefined" || time < toTime(filter.lt)) &&
+    (typeof filter.lte === "undefined" || time <= toTime(filter.lte))
+  );
+}
+
+// Determine whether a number satisfies a number comparison, which tracks without the number never do
+function matchesNumberFilter(
+  value: number | null,
+  filter: ReturnType<typeof makeNumberComparison>,
+): boolean {
+  return (
+    value !== null &&
+    (typeof filter.gt === "undefined" || value > filter.gt) &&
+    (typeof filter.gte === "undefined" || value >= filter.gte) &&
+    (typeof filter.lt === "undefined" || value < filter.lt) &&
+    (typeof filter.lte === "undefined" || value <= filter.lte)
+  );
+}
+
+// Determine whether `text` contains `search`, ignoring case
+function containsInsensitive(text: string, search: string): boolean {
+  return text.toLowerCase().includes(search.toLowerCase());
+}
+
+// Determine whether a track has a label, expanding references to smart labels
+function evaluateLabel(
+  name: string,
+  track: EvaluatedTrack,
+  options: CompileOptions,
+  labelPath: string[],
+): boolean {
+  const hasLabel = track.labels.some((label) => label.name === name);
+  const referencedCriteria = options.resolveSmartLabel?.(name) ?? [];
+  if (referencedCriteria.length === 0) {
+    // The filter doesn't reference a smart label
+    return hasLabel;
+  }
+
+  const path = [...labelPath, name];
+  if (labelPath.includes(name)) {
+    throw new LabelReferenceError(
+      `smart label "${name}" references itself (${path.map((label) => `"${label}"`).join(" → ")})`,
+      path,
+    );
+  }
+
+  // Dumb labels with the same name are still matched through the label relation
+  return (
+    hasLabel ||
+    referencedCriteria.some((criteria) => {
+      if (criteria === null) {
+        throw new LabelReferenceError(`smart label "${name}" has invalid smart criteria`, path);
+      }
+      return evaluateCriteria(criteria, track, options, path);
+    })
+  );
+}
+
+// Determine whether a track matches a criteria AST without querying the database
+// The semantics are identical to the prisma filter generated by `compileCriteria`, but because
+// evaluation short-circuits, invalid smart label references are only detected if they are reached
+export function evaluateCriteria(
+  node: CriteriaNode,
+  track: EvaluatedTrack,
+  options: CompileOptions = {},
+  labelPath: string[] = [],
+): boolean {
+  switch (node.type) {
+    case "clean":
+      return !track.explicit;
+    case "explicit":
+      return track.explicit;
+    case "unlabeled":
+      return track.labels.length === 0;
+    case "name":
+      return containsInsensitive(track.name, node.value);
+    case "label":
+      return evaluateLabel(node.value, track, options, labelPath);
+    case "album":
+      return track.album.name === node.value;
+    case "artist":
+      return track.artists.some((artist) => artist.name === node.value);
+    case "genre":
+      return track.artists.some((artist) =>
+        containsInsensitive(artist.searchableGenres, node.value),
+      );
+    case "added":
+      return matchesDateFilter(
+        track.dateAdded,
+        makeDateComparison(node.operator, node.date, options.timeZone),
+      );
+    case "released":
+      return matchesDateFilter(
+        track.album.dateReleased,
+        makeDateComparison(node.operator, node.date, options.timeZone),
+      );
+    case "tempo":
+    case "energy":
+    case "danceability":
+    case "popularity":
+      return matchesNumberFilter(track[node.type], makeNumberComparison(node.operator, node.value));
+    case "duration":
+      return matchesNumberFilter(
+        track.durationMs,
+        makeDurationComparison(node.operator, node.duration),
+      );
+    case "key":
+      return track.key === node.value;
+    case "not":
+      return !evaluateCriteria(node.operand, track, options, labelPath);
+    case "and":
+      return (
+        evaluateCriteria(node.left, track, options, labelPath) &&
+        evaluateCriteria(node.right, track, options, labelPath)
+      );
+    case "or":
+      return (
+        evaluateCriteria(node.left, track, options, labelPath) ||
+        evaluateCriteria(node.right, track, options, labelPath)
+      );
+  }
+}
@@ -0,0 +1,138 @@
+import { formatCriteria } from "./criteriaFormatter";
+import { normalizeSmartCriteria, parseCriteriaAst } from "./smartLabel";
+
+// Parse criteria that is expected to be valid
+function parse(criteria: string) {
+  const result = parseCriteriaAst(criteria);
+  if (!result.success) {
+    throw new Error(`Failed to parse "${criteria}": ${result.error.message}`);
+  }
+  return result.ast;
+}
+
+// Parse and format criteria, including its clauses
+function roundTrip(criteria: string) {
+  const result = parseCriteriaAst(criteria);
+  if (!result.success) {
+    throw new Error(`Failed to parse "${criteria}": ${result.error.message}`);
+  }
+  return formatCriteria(result.ast, result);
+}
+
+describe("formatCriteria", () => {
+  const canonical = [
+    "clean",
+    "explicit",
+    "unlabeled",
+    'name:"Name with space"',
+    'label:"&&:||:()"',
+    'album:"Album"',
+    'artist:"Artist"',
+    'genre:"shoegaze"',
+    "added=2020",
+    "added<4-1-2020",
+    "released>=3m",
+    "released<=7d",
+    "added>1y",
+    "added<2w",
+    "added=2021-04",
+    "released=1990s",
+    "added>=this-week",
+    "released=last-year",
+    "added=2020..2021",
+    "added<4-1-2020..today",
+    "tempo>=120",
+    "energy<0.4",
+    "danceability=0.75",
+    'key="C#"',
+    "popularity<20",
+    "duration<3m30s",
+    "duration=3m",
+    "duration>45s",
+    "!clean",
+    "!!clean",
+    "!(clean && explicit)",
+    "clean && explicit && unlabeled",
+    "clean && (explicit && unlabeled)",
+    "clean || explicit || unlabeled",
+    "clean || (explicit || unlabeled)",
+    "clean || explicit && unlabeled",
+    "(clean || explicit) && unlabeled",
+    "clean && explicit || unlabeled",
+    "clean && (explicit || unlabeled)",
+    '!(clean || label:"A") && (added>2020 || !released<1m)',
+    "clean sort:released asc",
+    "clean || explicit sort:name limit:100",
+    "added<1m sort:random",
+    "explicit limit:5",
+  ];
+
+  it("round-trips canonical criteria", () => {
+    canonical.forEach((criteria) => {
+      expect(roundTrip(criteria)).toBe(criteria);
+    });
+  });
+
+  it("preserves the AST", () => {
+    canonical.forEach((criteria) => {
+      const ast = parse(criteria);
+      expect(parse(formatCriteria(ast))).toEqual(ast);
+    });
+  });
+
+  it("orders clauses consistently", () => {
+    expect(normalizeSmartCriteria("clean limit:5  sort:added desc")).toBe(
+      "clean sort:added desc limit:5",
+    );
+  });
+
+  it("normalizes spacing", () => {
+    expect(formatCriteria(parse("  !clean&&(explicit ||unlabeled) "))).toBe(
+      "!clean && (explicit || unlabeled)",
+    );
+    expect(formatCriteria(parse('artist: "Name"  ||  added = 4-1-2020'))).toBe(
+      'artist:"Name" || added=4-1-2020',
+    );
+  });
+
+  it("normalizes dates", () => {
+    expect(formatCriteria(parse("added=2020-04-01"))).toBe("added=4-1-2020");
+    expect(formatCriteria(parse("added=2020-4"))).toBe("added=2020-04");
+  });
+
+  it("normalizes numbers and keys", () => {
+    expect(formatCriteria(parse("energy<.40"))).toBe("energy<0.4");
+    expect(formatCriteria(parse('key="Db"'))).toBe('key="C#"');
+    expect(formatCriteria(parse("duration<90s"))).toBe("duration<1m30s");
+    expect(formatCriteria(parse("duration<0m5s"))).toBe("duration<5s");
+    expect(formatCriteria(parse("duration<3m 0s"))).toBe("duration<3m0s");
+  });
+
+  it("normalizes keyword operators", () => {
+    expect(formatCriteria(parse("not clean and explicit or unlabeled"))).toBe(
+      "!clean && explicit || unlabeled",
+    );
+  });
+
+  it("removes unnecessary parentheses", () => {
+    expect(formatCriteria(parse("((clean))"))).toBe("clean");
+    expect(formatCriteria(parse("(clean && explicit) || (unlabeled)"))).toBe(
+      "clean && explicit || unlabeled",
+    );
+    expect(formatCriteria(parse("((clean || explicit) || unlabeled)"))).toBe(
+      "clean || explicit || unlabeled",
+    );
+    expect(formatCriteria(parse("!(clean)"))).toBe("!clean");
+    expect(formatCriteria(parse("!(!clean)"))).toBe("!!clean");
+  });
+});
+
+describe("normalizeSmartCriteria", () => {
+  it("normalizes valid criteria", () => {
+    expect(normalizeSmartCriteria("clean and(explicit)")).toBe("clean && explicit");
+  });
+
+  it("leaves invalid criteria unchanged", () => {
+    expect(normalizeSmartCriteria("clean and")).toBe("clean and");
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  AbsoluteDate,
+  CalendarDate,
+  CriteriaClauses,
+  CriteriaDate,
+  CriteriaNode,
+  Duration,
+  SortClause,
+  keyNames,
+} from "./criteriaAst";
+
+// Determine how tightly a node binds to its operands, which determines where parentheses are
+// necessary
+function getPrecedence(node: CriteriaNode): number {
+  switch (node.type) {
+    case "or":
+      return 1;
+    case "and":
+      return 2;
+    case "not":
+      return 3;
+    default:
+      return 4;
+  }
+}
+
+// Format a node, wrapping it in parentheses if it binds less tightly than `minPrecedence`
+function formatOperand(node: CriteriaNode, minPrecedence: number): string {
+  const formatted = formatFilter(node);
+  return getPrecedence(node) < minPrecedence ? `(${formatted})` : formatted;
+}
+
+function formatPeriod(date: AbsoluteDate | CalendarDate): string {
+  if (date.type === "calendar") {
+    return date.period;
+  } else if (date.unit === "decade") {
+    return `${date.year}s`;
+  } else if (date.unit === "y") {
+    return date.year.toString();
+  } else if (date.unit === "m") {
+    return `${date.year}-${date.month.toString().padStart(2, "0")}`;
+  } else {
+    return `${date.month}-${date.day}-${date.year}`;
+  }
+}
+
+function formatDate(date: CriteriaDate): string {
+  if (date.type === "relative") {
+    return `${date.amount}${date.unit}`;
+  } else if (date.type === "range") {
+    return `${formatPeriod(date.start)}..${formatPeriod(date.end)}`;
+  } else {
+    return formatPeriod(date);
+  }
+}
+
+function formatDuration({ seconds, precision }: Duration): string {
+  const minutes = Math.floor(seconds / 60);
+  if (precision === "m") {
+    return `${minutes}m`;
+  }
+  return minutes === 0 ? `${seconds}s` : `${minutes}m${seconds % 60}s`;
+}
+
+function formatSort(sort: SortClause): string {
+  return sort.direction === null ? `sort:${sort.field}` : `sort:${sort.field} ${sort.direction}`;
+}
+
+// Convert a criteria AST into canonical criteria text with consistent spacing, symbolic operators,
+// and only the parentheses necessary to preserve the structure of the AST, followed by any sort and
+// limit clauses
+export function formatCriteria(
+  node: CriteriaNode,
+  clauses: CriteriaClauses = { sort: null, limit: null },
+): string {
+  return [
+    formatFilter(node),
+    ...(clauses.sort ? [formatSort(clauses.sort)] : []),
+    ...(clauses.limit !== null ? [`limit:${clauses.limit}`] : []),
+  ].join(" ");
+}
+
+// Format the filter part of criteria
+function formatFilter(node: CriteriaNode): string {
+  switch (node.type) {
+    case "clean":
+    case "explicit":
+    case "unlabeled":
+      return node.type;
+    case "name":
+    case "label":
+    case "album":
+    case "artist":
+    case "genre":
+      return `${node.type}:"${node.value}"`;
+    case "added":
+    case "released":
+      return `${node.type}${node.operator}${formatDate(node.date)}`;
+    case "tempo":
+    case "energy":
+    case "danceability":
+    case "popularity":
+      return `${node.type}${node.operator}${node.value}`;
+    case "duration":
+      return `duration${node.operator}${formatDuration(node.duration)}`;
+    case "key":
+      return `key="${keyNames[node.value]}"`;
+    case "not":
+      return `!${formatOperand(node.operand, getPrecedence(node))}`;
+    case "and":
+    case "or": {
+      // && and || are left-associative, so a right operand with the same operator needs
+      // parentheses to keep its grouping
+      const precedence = getPrecedence(node);
+      const left = formatOperand(node.left, precedence);
+      const right = formatOperand(node.right, precedence + 1);
+      return `${left} ${node.type === "and" ? "&&" : "||"} ${right}`;
+    }
+  }
+}
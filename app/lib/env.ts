@@ -6,6 +6,9 @@ const envSchema = z.object({
   DATABASE_URL: nonEmptyString,
   SPOTIFY_CLIENT_ID: nonEmptyString,
   SPOTIFY_CLIENT_SECRET: nonEmptyString,
+  // The base URLs of Spotify's services, which tests point at a fake server
+  SPOTIFY_ACCOUNTS_URL: z.string().url().default("https://accounts.spotify.com"),
+  SPOTIFY_API_URL: z.string().url().default("https://api.spotify.com"),
 });
 
 // Validate the environment variables against the schema
@@ -10,81 +10,86 @@ import {
   TokenSymbol,
 } from "@canac/earley-bird";
 
-import { Prisma } from "@prisma/client";
-import { addDays, addMonths, addYears } from "date-fns";
 import moo from "moo";
+import {
+  AbsoluteDate,
+  CalendarDate,
+  CalendarPeriod,
+  Comparison,
+  CriteriaDate,
+  CriteriaNode,
+  CriteriaQuery,
+  DateRange,
+  DateUnit,
+  Duration,
+  NumberNode,
+  RelativeDate,
+  SortClause,
+  SortDirection,
+  SortField,
+} from "./criteriaAst";
 
-type DateTimeFilter = Prisma.DateTimeFilter;
-type TrackWhereInput = Prisma.TrackWhereInput;
-
-const addFuncs = {
-  d: addDays,
-  m: addMonths,
-  y: addYears,
+// The pitch classes of the natural notes
+const naturalNotes: Record<string, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
 };
-type Unit = "d" | "m" | "y";
-
-// Generate a comparison query between an absolute date in a given unit
-// makeAbsoluteComparison('=', new Date(2020, 1, 1), 'd') means "dates on the same day as 1/1/2020"
-// makeAbsoluteComparison('=', new Date(2020, 1, 1), 'y') means "dates in the same year as 1/1/2020"
-// makeAbsoluteComparison('>', new Date(2020, 1, 1), 'y') means "dates after 1/1/2020"
-// makeAbsoluteComparison('<=', new Date(2020, 1, 1), 'y') means "dates before or on 1/1/2020"
-function makeAbsoluteComparison(
-  operator: string,
-  date: Date,
-  unit: Unit
-): DateTimeFilter {
-  // Determine the next day/month/year based on the given unit
-  const addFunc = addFuncs[unit];
-  const next = addFunc(date, 1);
-  if (operator === "=") {
-    // The model equals the date if it falls between the date and the next day/month/year
-    return { gte: date, lt: next };
-  } else if (operator === "<") {
-    return { lt: date };
-  } else if (operator === "<=") {
-    return { lt: next };
-  } else if (operator === ">") {
-    return { gte: next };
-  } else if (operator === ">=") {
-    return { gte: date };
-  } else {
-    throw new Error("Invalid operator");
-  }
-}
 
-// Generate a comparison query a certain distance before now
-// makeRelativeComparison('=', 3, 'd') means "dates between 2 and 4 days before now"
-// makeRelativeComparison('=', 3, 'm') means "dates between 2 and 4 months before now"
-// makeRelativeComparison('>', 3, 'd') means "dates more than 3 days before now"
-// makeRelativeComparison('<=', 3, 'y') means "dates 3 or fewer years before now"
-function makeRelativeComparison(
-  operator: string,
-  amount: number,
-  unit: Unit
-): DateTimeFilter {
-  const addFunc = addFuncs[unit];
-  const now = new Date();
-  if (operator === "=") {
-    return { gt: addFunc(now, -amount), lt: addFunc(now, amount) };
-  } else if (operator === "<") {
-    return { gt: addFunc(now, -amount) };
-  } else if (operator === "<=") {
-    return { gte: addFunc(now, -amount) };
-  } else if (operator === ">") {
-    return { lt: addFunc(now, -amount) };
-  } else if (operator === ">=") {
-    return { lte: addFunc(now, -amount) };
-  } else {
-    throw new Error("Invalid operator");
-  }
+// Parse the name of a key, like "C#" or "Db", into its pitch class
+function parseKey(name: string): number {
+  const [, note = "", accidental] = /^([A-G])([#b]?)$/.exec(name) ?? [];
+  const offset = accidental === "#" ? 1 : accidental === "b" ? -1 : 0;
+  return ((naturalNotes[note] ?? 0) + offset + 12) % 12;
 }
 
-const lexer = moo.compile({
+const mooLexer = moo.compile({
   ws: / +/,
-  number: { match: /[1-9]\d*/, value: (v: string) => parseInt(v, 10) },
+  // Dates with a four-digit year first, like "2020-04-01", "2020-04", and "1990s"
+  isoDate: {
+    match: /\d{4}-\d{1,2}-\d{1,2}/,
+    value: (v: string) => v.split("-").map(Number),
+  },
+  yearMonth: {
+    match: /\d{4}-\d{1,2}/,
+    value: (v: string) => v.split("-").map(Number),
+  },
+  decade: { match: /\d{3}0s/, value: (v: string) => parseInt(v, 10) },
+  decimal: { match: /\d*\.\d+/, value: (v: string) => parseFloat(v) },
+  number: { match: /\d+/, value: (v: string) => parseInt(v, 10) },
+  // Key names are also valid quoted strings, so they must come before quoted strings
+  keyName: {
+    match: /"[A-G][#b]?"/,
+    value: (v: string) => parseKey(v.slice(1, -1)),
+  },
   quotedString: { match: /\".+?\"/, value: (v: string) => v.slice(1, -1) },
-  dateUnit: ["d", "m", "y"],
+  sortKw: "sort:",
+  limitKw: "limit:",
+
+  // Calendar periods, sort directions, and number filters must come before date units because
+  // "yesterday" starts with "y" and "desc", "danceability", and "duration" start with "d"
+  ascKw: /(?<!\w)asc(?!\w)/,
+  descKw: /(?<!\w)desc(?!\w)/,
+  calendarKw: [
+    "today",
+    "yesterday",
+    "this-week",
+    "last-week",
+    "this-month",
+    "last-month",
+    "this-year",
+    "last-year",
+  ],
+  numberKw: ["tempo", "energy", "danceability", "popularity"],
+  durationKw: "duration",
+  keyKw: "key",
+  dateUnit: ["d", "w", "m", "y"],
+  // Durations reuse "m" from the date units for minutes
+  secondsUnit: "s",
 
   cleanKw: "clean",
   explicitKw: "explicit",
@@ -96,7 +101,18 @@ const lexer = moo.compile({
   labelKw: "label:",
   albumKw: "album:",
   artistKw: "artist:",
+  genreKw: "genre:",
 
+  // Sort fields other than "added" and "released", which reuse the filter keywords
+  nameFieldKw: /(?<!\w)name(?!\w)/,
+  randomKw: /(?<!\w)random(?!\w)/,
+
+  // Keyword operators can't be directly adjacent to other words
+  notKw: /(?<!\w)not(?!\w)/,
+  andKw: /(?<!\w)and(?!\w)/,
+  orKw: /(?<!\w)or(?!\w)/,
+
+  range: "..",
   dash: "-",
   comparison: ["<=", ">=", "<", ">", "="],
   not: "!",
@@ -106,17 +122,146 @@ const lexer = moo.compile({
   rparen: ")",
 });
 
+type Token = { type: string, text: string, offset: number, value: unknown };
+
+// Wrap the moo lexer to discard whitespace tokens, which makes whitespace optional between tokens
+export const lexer = {
+  reset(chunk: string): void {
+    mooLexer.reset(chunk);
+  },
+  next(): Token | undefined {
+    let token: Token | undefined;
+    do {
+      token = mooLexer.next();
+    } while (token?.type === "ws");
+    return token;
+  },
+  *[Symbol.iterator](): IterableIterator<Token> {
+    let token: Token | undefined;
+    while ((token = lexer.next())) {
+      yield token;
+    }
+  },
+};
+
 const grammar = new Grammar(
   [
     {
       name: "main",
-      symbols: [new RuleSymbol("binary")],
-      postprocess: (d) => d[0],
+      symbols: [new RuleSymbol("disjunction")],
+      postprocess: ([filter]: [CriteriaNode]): CriteriaQuery => ({
+        filter,
+        sort: null,
+        limit: null,
+      }),
+    },
+    {
+      name: "main",
+      symbols: [new RuleSymbol("disjunction"), new RuleSymbol("sort")],
+      postprocess: ([filter, sort]: [
+        CriteriaNode,
+        SortClause
+      ]): CriteriaQuery => ({ filter, sort, limit: null }),
+    },
+    {
+      name: "main",
+      symbols: [new RuleSymbol("disjunction"), new RuleSymbol("limit")],
+      postprocess: ([filter, limit]: [
+        CriteriaNode,
+        number
+      ]): CriteriaQuery => ({ filter, sort: null, limit }),
+    },
+    {
+      name: "main",
+      symbols: [
+        new RuleSymbol("disjunction"),
+        new RuleSymbol("sort"),
+        new RuleSymbol("limit"),
+      ],
+      postprocess: ([filter, sort, limit]: [
+        CriteriaNode,
+        SortClause,
+        number
+      ]): CriteriaQuery => ({ filter, sort, limit }),
+    },
+    {
+      name: "main",
+      symbols: [
+        new RuleSymbol("disjunction"),
+        new RuleSymbol("limit"),
+        new RuleSymbol("sort"),
+      ],
+      postprocess: ([filter, limit, sort]: [
+        CriteriaNode,
+        number,
+        SortClause
+      ]): CriteriaQuery => ({ filter, sort, limit }),
+    },
+    {
+      name: "sortField",
+      symbols: [new TokenSymbol("addedKw")],
+      postprocess: (_): SortField => "added",
+    },
+    {
+      name: "sortField",
+      symbols: [new TokenSymbol("releasedKw")],
+      postprocess: (_): SortField => "released",
+    },
+    {
+      name: "sortField",
+      symbols: [new TokenSymbol("nameFieldKw")],
+      postprocess: (_): SortField => "name",
+    },
+    {
+      name: "sortDirection",
+      symbols: [new TokenSymbol("ascKw")],
+      postprocess: (_): SortDirection => "asc",
+    },
+    {
+      name: "sortDirection",
+      symbols: [new TokenSymbol("descKw")],
+      postprocess: (_): SortDirection => "desc",
+    },
+    {
+      name: "sort",
+      symbols: [new TokenSymbol("sortKw"), new RuleSymbol("sortField")],
+      postprocess: ([_, field]: [unknown, SortField]): SortClause => ({
+        field,
+        direction: null,
+      }),
+    },
+    {
+      name: "sort",
+      symbols: [
+        new TokenSymbol("sortKw"),
+        new RuleSymbol("sortField"),
+        new RuleSymbol("sortDirection"),
+      ],
+      postprocess: ([_, field, direction]: [
+        unknown,
+        SortField,
+        SortDirection
+      ]): SortClause => ({ field, direction }),
+    },
+    {
+      name: "sort",
+      symbols: [new TokenSymbol("sortKw"), new TokenSymbol("randomKw")],
+      postprocess: (_): SortClause => ({ field: "random", direction: null }),
+    },
+    {
+      name: "limit",
+      symbols: [new TokenSymbol("limitKw"), new TokenSymbol("number")],
+      postprocess: ([_, limit]: [unknown, { value: number }]): number =>
+        limit.value,
     },
     {
       name: "relativeDate",
       symbols: [new TokenSymbol("number"), new TokenSymbol("dateUnit")],
-      postprocess: ([amount, unit]: [{ value: number }, { value: Unit }]) => ({
+      postprocess: ([amount, unit]: [
+        { value: number },
+        { value: DateUnit }
+      ]): RelativeDate => ({
+        type: "relative",
         amount: amount.value,
         unit: unit.value,
       }),
@@ -124,9 +269,12 @@ const grammar = new Grammar(
     {
       name: "absoluteDate",
       symbols: [new TokenSymbol("number")],
-      postprocess: ([year]: [{ value: number }]) => ({
+      postprocess: ([year]: [{ value: number }]): AbsoluteDate => ({
+        type: "absolute",
         unit: "y",
-        date: new Date(year.value, 0, 1),
+        year: year.value,
+        month: 1,
+        day: 1,
       }),
     },
     {
@@ -144,135 +292,280 @@ const grammar = new Grammar(
         { value: number },
         unknown,
         { value: number }
-      ]) => ({
+      ]): AbsoluteDate => ({
+        type: "absolute",
         unit: "d",
-        date: new Date(year.value, month.value - 1, day.value),
+        year: year.value,
+        month: month.value,
+        day: day.value,
       }),
     },
     {
-      name: "added",
+      name: "absoluteDate",
+      symbols: [new TokenSymbol("isoDate")],
+      postprocess: ([date]: [
+        { value: [number, number, number] }
+      ]): AbsoluteDate => ({
+        type: "absolute",
+        unit: "d",
+        year: date.value[0],
+        month: date.value[1],
+        day: date.value[2],
+      }),
+    },
+    {
+      name: "absoluteDate",
+      symbols: [new TokenSymbol("yearMonth")],
+      postprocess: ([date]: [{ value: [number, number] }]): AbsoluteDate => ({
+        type: "absolute",
+        unit: "m",
+        year: date.value[0],
+        month: date.value[1],
+        day: 1,
+      }),
+    },
+    {
+      name: "absoluteDate",
+      symbols: [new TokenSymbol("decade")],
+      postprocess: ([decade]: [{ value: number }]): AbsoluteDate => ({
+        type: "absolute",
+        unit: "decade",
+        year: decade.value,
+        month: 1,
+        day: 1,
+      }),
+    },
+    {
+      name: "calendarDate",
+      symbols: [new TokenSymbol("calendarKw")],
+      postprocess: ([period]: [{ value: CalendarPeriod }]): CalendarDate => ({
+        type: "calendar",
+        period: period.value,
+      }),
+    },
+    {
+      name: "periodDate",
+      symbols: [new RuleSymbol("absoluteDate")],
+      postprocess: (d) => d[0],
+    },
+    {
+      name: "periodDate",
+      symbols: [new RuleSymbol("calendarDate")],
+      postprocess: (d) => d[0],
+    },
+    {
+      name: "dateRange",
       symbols: [
-        new TokenSymbol("addedKw"),
-        new TokenSymbol("comparison"),
-        new RuleSymbol("absoluteDate"),
+        new RuleSymbol("periodDate"),
+        new TokenSymbol("range"),
+        new RuleSymbol("periodDate"),
       ],
-      postprocess: ([_, operator, date]: [
+      postprocess: ([start, _, end]: [
+        AbsoluteDate | CalendarDate,
         unknown,
-        { value: string },
-        { date: Date, unit: Unit }
-      ]): TrackWhereInput => ({
-        dateAdded: makeAbsoluteComparison(operator.value, date.date, date.unit),
-      }),
+        AbsoluteDate | CalendarDate
+      ]): DateRange => ({ type: "range", start, end }),
+    },
+    {
+      name: "date",
+      symbols: [new RuleSymbol("periodDate")],
+      postprocess: (d) => d[0],
+    },
+    {
+      name: "date",
+      symbols: [new RuleSymbol("relativeDate")],
+      postprocess: (d) => d[0],
+    },
+    {
+      name: "date",
+      symbols: [new RuleSymbol("dateRange")],
+      postprocess: (d) => d[0],
     },
     {
       name: "added",
       symbols: [
         new TokenSymbol("addedKw"),
         new TokenSymbol("comparison"),
-        new RuleSymbol("relativeDate"),
+        new RuleSymbol("date"),
       ],
       postprocess: ([_, operator, date]: [
         unknown,
-        { value: string },
-        { amount: number, unit: Unit }
-      ]): TrackWhereInput => ({
-        dateAdded: makeRelativeComparison(
-          operator.value,
-          date.amount,
-          date.unit
-        ),
-      }),
+        { value: Comparison },
+        CriteriaDate
+      ]): CriteriaNode => ({ type: "added", operator: operator.value, date }),
     },
     {
       name: "released",
       symbols: [
         new TokenSymbol("releasedKw"),
         new TokenSymbol("comparison"),
-        new RuleSymbol("absoluteDate"),
+        new RuleSymbol("date"),
       ],
       postprocess: ([_, operator, date]: [
         unknown,
-        { value: string },
-        { date: Date, unit: Unit }
-      ]): TrackWhereInput => ({
-        album: {
-          dateReleased: makeAbsoluteComparison(
-            operator.value,
-            date.date,
-            date.unit
-          ),
-        },
+        { value: Comparison },
+        CriteriaDate
+      ]): CriteriaNode => ({
+        type: "released",
+        operator: operator.value,
+        date,
       }),
     },
     {
-      name: "released",
+      name: "numberValue",
+      symbols: [new TokenSymbol("number")],
+      postprocess: ([number]: [{ value: number }]): number => number.value,
+    },
+    {
+      name: "numberValue",
+      symbols: [new TokenSymbol("decimal")],
+      postprocess: ([number]: [{ value: number }]): number => number.value,
+    },
+    {
+      name: "numberComparison",
       symbols: [
-        new TokenSymbol("releasedKw"),
+        new TokenSymbol("numberKw"),
         new TokenSymbol("comparison"),
-        new RuleSymbol("relativeDate"),
+        new RuleSymbol("numberValue"),
       ],
-      postprocess: ([_, operator, date]: [
+      postprocess: ([field, operator, value]: [
+        { value: NumberNode["type"] },
+        { value: Comparison },
+        number
+      ]): CriteriaNode => ({
+        type: field.value,
+        operator: operator.value,
+        value,
+      }),
+    },
+    {
+      name: "durationValue",
+      symbols: [new TokenSymbol("number"), new LiteralSymbol("m")],
+      postprocess: ([minutes]: [{ value: number }]): Duration => ({
+        seconds: minutes.value * 60,
+        precision: "m",
+      }),
+    },
+    {
+      name: "durationValue",
+      symbols: [new TokenSymbol("number"), new TokenSymbol("secondsUnit")],
+      postprocess: ([seconds]: [{ value: number }]): Duration => ({
+        seconds: seconds.value,
+        precision: "s",
+      }),
+    },
+    {
+      name: "durationValue",
+      symbols: [
+        new TokenSymbol("number"),
+        new LiteralSymbol("m"),
+        new TokenSymbol("number"),
+        new TokenSymbol("secondsUnit"),
+      ],
+      postprocess: ([minutes, _, seconds]: [
+        { value: number },
         unknown,
-        { value: string },
-        { amount: number, unit: Unit }
-      ]): TrackWhereInput => ({
-        album: {
-          dateReleased: makeRelativeComparison(
-            operator.value,
-            date.amount,
-            date.unit
-          ),
-        },
+        { value: number }
+      ]): Duration => ({
+        seconds: minutes.value * 60 + seconds.value,
+        precision: "s",
       }),
     },
+    {
+      name: "duration",
+      symbols: [
+        new TokenSymbol("durationKw"),
+        new TokenSymbol("comparison"),
+        new RuleSymbol("durationValue"),
+      ],
+      postprocess: ([_, operator, duration]: [
+        unknown,
+        { value: Comparison },
+        Duration
+      ]): CriteriaNode => ({
+        type: "duration",
+        operator: operator.value,
+        duration,
+      }),
+    },
+    {
+      name: "key",
+      symbols: [
+        new TokenSymbol("keyKw"),
+        new LiteralSymbol("="),
+        new TokenSymbol("keyName"),
+      ],
+      postprocess: ([_a, _b, key]: [
+        unknown,
+        unknown,
+        { value: number }
+      ]): CriteriaNode => ({ type: "key", value: key.value }),
+    },
+    {
+      name: "string",
+      symbols: [new TokenSymbol("quotedString")],
+      postprocess: ([string]: [{ value: string }]): string => string.value,
+    },
+    {
+      name: "string",
+      symbols: [new TokenSymbol("keyName")],
+      postprocess: ([string]: [{ text: string }]): string =>
+        string.text.slice(1, -1),
+    },
     {
       name: "value",
       symbols: [new TokenSymbol("cleanKw")],
-      postprocess: (_): TrackWhereInput => ({ explicit: false }),
+      postprocess: (_): CriteriaNode => ({ type: "clean" }),
     },
     {
       name: "value",
       symbols: [new TokenSymbol("explicitKw")],
-      postprocess: (_): TrackWhereInput => ({ explicit: true }),
+      postprocess: (_): CriteriaNode => ({ type: "explicit" }),
     },
     {
       name: "value",
       symbols: [new TokenSymbol("unlabeledKw")],
-      postprocess: (_): TrackWhereInput => ({ labels: { none: {} } }),
+      postprocess: (_): CriteriaNode => ({ type: "unlabeled" }),
     },
     {
       name: "value",
-      symbols: [new TokenSymbol("nameKw"), new TokenSymbol("quotedString")],
-      postprocess: ([_, name]: [
-        unknown,
-        { value: string }
-      ]): TrackWhereInput => ({
-        name: { contains: name.value, mode: "insensitive" },
+      symbols: [new TokenSymbol("nameKw"), new RuleSymbol("string")],
+      postprocess: ([_, name]: [unknown, string]): CriteriaNode => ({
+        type: "name",
+        value: name,
       }),
     },
     {
       name: "value",
-      symbols: [new TokenSymbol("labelKw"), new TokenSymbol("quotedString")],
-      postprocess: ([_, name]: [
-        unknown,
-        { value: string }
-      ]): TrackWhereInput => ({ labels: { some: { name: name.value } } }),
+      symbols: [new TokenSymbol("labelKw"), new RuleSymbol("string")],
+      postprocess: ([_, name]: [unknown, string]): CriteriaNode => ({
+        type: "label",
+        value: name,
+      }),
     },
     {
       name: "value",
-      symbols: [new TokenSymbol("albumKw"), new TokenSymbol("quotedString")],
-      postprocess: ([_, name]: [
-        unknown,
-        { value: string }
-      ]): TrackWhereInput => ({ album: { name: name.value } }),
+      symbols: [new TokenSymbol("albumKw"), new RuleSymbol("string")],
+      postprocess: ([_, name]: [unknown, string]): CriteriaNode => ({
+        type: "album",
+        value: name,
+      }),
     },
     {
       name: "value",
-      symbols: [new TokenSymbol("artistKw"), new TokenSymbol("quotedString")],
-      postprocess: ([_, name]: [
-        unknown,
-        { value: string }
-      ]): TrackWhereInput => ({ artists: { some: { name: name.value } } }),
+      symbols: [new TokenSymbol("artistKw"), new RuleSymbol("string")],
+      postprocess: ([_, name]: [unknown, string]): CriteriaNode => ({
+        type: "artist",
+        value: name,
+      }),
+    },
+    {
+      name: "value",
+      symbols: [new TokenSymbol("genreKw"), new RuleSymbol("string")],
+      postprocess: ([_, genre]: [unknown, string]): CriteriaNode => ({
+        type: "genre",
+        value: genre,
+      }),
     },
     {
       name: "value",
@@ -284,11 +577,26 @@ const grammar = new Grammar(
       symbols: [new RuleSymbol("released")],
       postprocess: (d) => d[0],
     },
+    {
+      name: "value",
+      symbols: [new RuleSymbol("numberComparison")],
+      postprocess: (d) => d[0],
+    },
+    {
+      name: "value",
+      symbols: [new RuleSymbol("duration")],
+      postprocess: (d) => d[0],
+    },
+    {
+      name: "value",
+      symbols: [new RuleSymbol("key")],
+      postprocess: (d) => d[0],
+    },
     {
       name: "parentheses",
       symbols: [
         new TokenSymbol("lparen"),
-        new RuleSymbol("binary"),
+        new RuleSymbol("disjunction"),
         new TokenSymbol("rparen"),
       ],
       postprocess: ([_, inner]) => inner,
@@ -300,9 +608,18 @@ const grammar = new Grammar(
     },
     {
       name: "unary",
-      symbols: [new TokenSymbol("not"), new RuleSymbol("parentheses")],
-      postprocess: ([_, rhs]: [unknown, TrackWhereInput]): TrackWhereInput => ({
-        NOT: rhs,
+      symbols: [new TokenSymbol("not"), new RuleSymbol("unary")],
+      postprocess: ([_, operand]: [unknown, CriteriaNode]): CriteriaNode => ({
+        type: "not",
+        operand,
+      }),
+    },
+    {
+      name: "unary",
+      symbols: [new TokenSymbol("notKw"), new RuleSymbol("unary")],
+      postprocess: ([_, operand]: [unknown, CriteriaNode]): CriteriaNode => ({
+        type: "not",
+        operand,
       }),
     },
     {
@@ -311,45 +628,67 @@ const grammar = new Grammar(
       postprocess: (d) => d[0],
     },
     {
-      name: "binary",
+      name: "conjunction",
       symbols: [
-        new RuleSymbol("binary"),
-        new TokenSymbol("ws"),
+        new RuleSymbol("conjunction"),
         new TokenSymbol("and"),
-        new TokenSymbol("ws"),
         new RuleSymbol("unary"),
       ],
-      postprocess: ([lhs, _a, _b, _c, rhs]: [
-        TrackWhereInput,
-        unknown,
-        unknown,
+      postprocess: ([left, _, right]: [
+        CriteriaNode,
         unknown,
-        TrackWhereInput
-      ]): TrackWhereInput => ({ AND: [lhs, rhs] }),
+        CriteriaNode
+      ]): CriteriaNode => ({ type: "and", left, right }),
     },
     {
-      name: "binary",
+      name: "conjunction",
       symbols: [
-        new RuleSymbol("binary"),
-        new TokenSymbol("ws"),
-        new TokenSymbol("or"),
-        new TokenSymbol("ws"),
+        new RuleSymbol("conjunction"),
+        new TokenSymbol("andKw"),
         new RuleSymbol("unary"),
       ],
-      postprocess: ([lhs, _a, _b, _c, rhs]: [
-        TrackWhereInput,
+      postprocess: ([left, _, right]: [
+        CriteriaNode,
         unknown,
+        CriteriaNode
+      ]): CriteriaNode => ({ type: "and", left, right }),
+    },
+    {
+      name: "conjunction",
+      symbols: [new RuleSymbol("unary")],
+      postprocess: (d) => d[0],
+    },
+    {
+      name: "disjunction",
+      symbols: [
+        new RuleSymbol("disjunction"),
+        new TokenSymbol("or"),
+        new RuleSymbol("conjunction"),
+      ],
+      postprocess: ([left, _, right]: [
+        CriteriaNode,
         unknown,
+        CriteriaNode
+      ]): CriteriaNode => ({ type: "or", left, right }),
+    },
+    {
+      name: "disjunction",
+      symbols: [
+        new RuleSymbol("disjunction"),
+        new TokenSymbol("orKw"),
+        new RuleSymbol("conjunction"),
+      ],
+      postprocess: ([left, _, right]: [
+        CriteriaNode,
         unknown,
-        TrackWhereInput
-      ]): TrackWhereInput => ({ OR: [lhs, rhs] }),
+        CriteriaNode
+      ]): CriteriaNode => ({ type: "or", left, right }),
     },
     {
-      name: "binary",
-      symbols: [new RuleSymbol("unary")],
+      name: "disjunction",
+      symbols: [new RuleSymbol("conjunction")],
       postprocess: (d) => d[0],
     },
-    { name: "ws", symbols: [new TokenSymbol("ws")], postprocess: undefined },
   ],
   "main"
 );
@@ -1,4 +1,11 @@
-import { generatePrismaFilter } from "./smartLabel";
+import { compileSort } from "./criteriaCompiler";
+import {
+  generatePrismaFilter,
+  getCriteriaCompletions,
+  getReferencedLabels,
+  parseSmartCriteria,
+  renameLabelReferences,
+} from "./smartLabel";
 
 jest.useFakeTimers().setSystemTime(new Date(2022, 3, 1));
 
@@ -43,6 +50,14 @@ describe("validateSmartCriteria", () => {
     });
   });
 
+  describe("supports genre", () => {
+    names.forEach((name) => {
+      expect(generatePrismaFilter(`genre:"${name}"`)).toEqual({
+        artists: { some: { searchableGenres: { contains: name, mode: "insensitive" } } },
+      });
+    });
+  });
+
   describe("added", () => {
     it("supports relative dates", () => {
       expect(generatePrismaFilter("added=1d")).toEqual({
@@ -157,6 +172,118 @@ describe("validateSmartCriteria", () => {
         },
       });
     });
+
+    it("supports relative weeks", () => {
+      expect(generatePrismaFilter("added<2w")).toEqual({
+        dateAdded: {
+          gt: new Date(2022, 2, 18),
+        },
+      });
+    });
+
+    it("supports ISO dates, months, and decades", () => {
+      expect(generatePrismaFilter("added=2022-04-01")).toEqual(
+        generatePrismaFilter("added=4-1-2022"),
+      );
+      expect(generatePrismaFilter("added=2021-04")).toEqual({
+        dateAdded: {
+          gte: new Date(2021, 3, 1),
+          lt: new Date(2021, 4, 1),
+        },
+      });
+      expect(generatePrismaFilter("added>2021-12")).toEqual({
+        dateAdded: {
+          gte: new Date(2022, 0, 1),
+        },
+      });
+      expect(generatePrismaFilter("added=1990s")).toEqual({
+        dateAdded: {
+          gte: new Date(1990, 0, 1),
+          lt: new Date(2000, 0, 1),
+        },
+      });
+      expect(generatePrismaFilter("added<1990s")).toEqual({
+        dateAdded: {
+          lt: new Date(1990, 0, 1),
+        },
+      });
+    });
+
+    it("supports calendar periods", () => {
+      expect(generatePrismaFilter("added=today")).toEqual({
+        dateAdded: {
+          gte: new Date(2022, 3, 1),
+          lt: new Date(2022, 3, 2),
+        },
+      });
+      expect(generatePrismaFilter("added=yesterday")).toEqual({
+        dateAdded: {
+          gte: new Date(2022, 2, 31),
+          lt: new Date(2022, 3, 1),
+        },
+      });
+      expect(generatePrismaFilter("added=this-week")).toEqual({
+        dateAdded: {
+          gte: new Date(2022, 2, 27),
+          lt: new Date(2022, 3, 3),
+        },
+      });
+      expect(generatePrismaFilter("added=last-week")).toEqual({
+        dateAdded: {
+          gte: new Date(2022, 2, 20),
+          lt: new Date(2022, 2, 27),
+        },
+      });
+      expect(generatePrismaFilter("added=this-month")).toEqual({
+        dateAdded: {
+          gte: new Date(2022, 3, 1),
+          lt: new Date(2022, 4, 1),
+        },
+      });
+      expect(generatePrismaFilter("added=last-month")).toEqual({
+        dateAdded: {
+          gte: new Date(2022, 2, 1),
+          lt: new Date(2022, 3, 1),
+        },
+      });
+      expect(generatePrismaFilter("added=this-year")).toEqual({
+        dateAdded: {
+          gte: new Date(2022, 0, 1),
+          lt: new Date(2023, 0, 1),
+        },
+      });
+      expect(generatePrismaFilter("added<last-year")).toEqual({
+        dateAdded: {
+          lt: new Date(2021, 0, 1),
+        },
+      });
+    });
+
+    it("supports ranges", () => {
+      expect(generatePrismaFilter("added=2020..2021")).toEqual({
+        dateAdded: {
+          gte: new Date(2020, 0, 1),
+          lt: new Date(2022, 0, 1),
+        },
+      });
+      expect(generatePrismaFilter("added=3-15-2021..2021-04")).toEqual({
+        dateAdded: {
+          gte: new Date(2021, 2, 15),
+          lt: new Date(2021, 4, 1),
+        },
+      });
+      expect(generatePrismaFilter("added>=2020..today")).toEqual({
+        dateAdded: {
+          gte: new Date(2020, 0, 1),
+        },
+      });
+      expect(generatePrismaFilter("added>1990s..2000s")).toEqual({
+        dateAdded: {
+          gte: new Date(2010, 0, 1),
+        },
+      });
+      expect(generatePrismaFilter("added=1y..2y")).toBeNull();
+    });
   });
 
   describe("released", () => {
@@ -315,6 +442,115 @@ describe("validateSmartCriteria", () => {
     });
   });
 
+  describe("audio features", () => {
+    it("compares numbers exactly and equality as the span that rounds to them", () => {
+      expect(generatePrismaFilter("tempo=120")).toEqual({
+        tempo: { not: null, gte: 119.5, lt: 120.5 },
+      });
+      expect(generatePrismaFilter("tempo>=120")).toEqual({ tempo: { not: null, gte: 120 } });
+      expect(generatePrismaFilter("tempo>120")).toEqual({ tempo: { not: null, gt: 120 } });
+      expect(generatePrismaFilter("tempo<=120")).toEqual({ tempo: { not: null, lte: 120 } });
+      expect(generatePrismaFilter("energy<0.4")).toEqual({ energy: { not: null, lt: 0.4 } });
+      expect(generatePrismaFilter("danceability>.7")).toEqual({
+        danceability: { not: null, gt: 0.7 },
+      });
+      expect(generatePrismaFilter("energy=0.25")).toEqual({
+        energy: { not: null, gte: 0.25 - 0.005, lt: 0.25 + 0.005 },
+      });
+    });
+
+    it("supports keys", () => {
+      expect(generatePrismaFilter('key="C"')).toEqual({ key: { not: null, equals: 0 } });
+      expect(generatePrismaFilter('key="C#"')).toEqual({ key: { not: null, equals: 1 } });
+      expect(generatePrismaFilter('key="Db"')).toEqual({ key: { not: null, equals: 1 } });
+      expect(generatePrismaFilter('key="B"')).toEqual({ key: { not: null, equals: 11 } });
+      expect(generatePrismaFilter('key="Cb"')).toEqual({ key: { not: null, equals: 11 } });
+    });
+
+    it("rejects invalid keys", () => {
+      expect(parseSmartCriteria('key="H"')).toEqual({
+        success: false,
+        error: expect.objectContaining({ offset: 4, token: '"H"', expected: ["keyName"] }),
+      });
+      expect(parseSmartCriteria('key<"C"')).toEqual({
+        success: false,
+        error: expect.objectContaining({ offset: 3, message: 'expected "=" after key' }),
+      });
+    });
+
+    it("still treats key names as quoted strings", () => {
+      expect(generatePrismaFilter('name:"C"')).toEqual({
+        name: { contains: "C", mode: "insensitive" },
+      });
+      expect(generatePrismaFilter('label:"Bb"')).toEqual({ labels: { some: { name: "Bb" } } });
+    });
+  });
+
+  it("supports popularity", () => {
+    expect(generatePrismaFilter("popularity<20")).toEqual({ popularity: { not: null, lt: 20 } });
+    expect(generatePrismaFilter("popularity=50")).toEqual({
+      popularity: { not: null, gte: 49.5, lt: 50.5 },
+    });
+  });
+
+  describe("duration", () => {
+    const seconds = 1000;
+    const minutes = 60 * seconds;
+
+    it("supports minutes and seconds", () => {
+      expect(generatePrismaFilter("duration<3m30s")).toEqual({
+        durationMs: { not: null, lt: 3 * minutes + 30 * seconds },
+      });
+      expect(generatePrismaFilter("duration>=4m")).toEqual({
+        durationMs: { not: null, gte: 4 * minutes },
+      });
+      expect(generatePrismaFilter("duration>90s")).toEqual({
+        durationMs: { not: null, gt: 90 * seconds },
+      });
+      expect(generatePrismaFilter("duration<=0m45s")).toEqual({
+        durationMs: { not: null, lte: 45 * seconds },
+      });
+    });
+
+    it("matches the whole minute or second for equality", () => {
+      expect(generatePrismaFilter("duration=3m")).toEqual({
+        durationMs: { not: null, gte: 3 * minutes, lt: 4 * minutes },
+      });
+      expect(generatePrismaFilter("duration=3m30s")).toEqual({
+        durationMs: { not: null, gte: 3 * minutes + 30 * seconds, lt: 3 * minutes + 31 * seconds },
+      });
+    });
+
+    it("tolerates whitespace between minutes and seconds", () => {
+      expect(generatePrismaFilter("duration < 3m 30s")).toEqual(
+        generatePrismaFilter("duration<3m30s"),
+      );
+    });
+
+    it("still supports months in relative dates", () => {
+      expect(generatePrismaFilter("added<3m")).toEqual({
+        dateAdded: { gt: new Date(2022, 0, 1) },
+      });
+    });
+
+    it("rejects invalid durations", () => {
+      expect(parseSmartCriteria("duration<3")).toEqual({
+        success: false,
+        error: expect.objectContaining({
+          offset: 10,
+          message: "expected a duration unit (m or s)",
+        }),
+      });
+      expect(parseSmartCriteria("duration<3d")).toEqual({
+        success: false,
+        error: expect.objectContaining({ offset: 10, token: "d" }),
+      });
+      expect(generatePrismaFilter("duration<3s30m")).toBe(null);
+      expect(generatePrismaFilter("duration<3.5m")).toBe(null);
+      expect(generatePrismaFilter("added<3s")).toBe(null);
+    });
+  });
+
   const clean = { explicit: false };
 
   it("supports !", () => {
@@ -346,7 +582,519 @@ describe("validateSmartCriteria", () => {
     });
   });
 
+  const explicit = { explicit: true };
+  const unlabeled = { labels: { none: {} } };
+
+  it("gives && higher precedence than ||", () => {
+    expect(generatePrismaFilter("clean || explicit && unlabeled")).toEqual({
+      OR: [clean, { AND: [explicit, unlabeled] }],
+    });
+    expect(generatePrismaFilter("clean && explicit || unlabeled")).toEqual({
+      OR: [{ AND: [clean, explicit] }, unlabeled],
+    });
+    expect(generatePrismaFilter("(clean || explicit) && unlabeled")).toEqual({
+      AND: [{ OR: [clean, explicit] }, unlabeled],
+    });
+  });
+
+  it("gives ! higher precedence than && and ||", () => {
+    expect(generatePrismaFilter("!clean && !explicit || !unlabeled")).toEqual({
+      OR: [{ AND: [{ NOT: clean }, { NOT: explicit }] }, { NOT: unlabeled }],
+    });
+    expect(generatePrismaFilter("!!clean")).toEqual({ NOT: { NOT: clean } });
+  });
+
+  it("makes && and || left-associative", () => {
+    expect(generatePrismaFilter("clean && explicit && unlabeled")).toEqual({
+      AND: [{ AND: [clean, explicit] }, unlabeled],
+    });
+    expect(generatePrismaFilter("clean || explicit || unlabeled")).toEqual({
+      OR: [{ OR: [clean, explicit] }, unlabeled],
+    });
+  });
+
+  it("supports keyword operators", () => {
+    expect(generatePrismaFilter("not clean")).toEqual({ NOT: clean });
+    expect(generatePrismaFilter("not(clean)")).toEqual({ NOT: clean });
+    expect(generatePrismaFilter("clean and explicit")).toEqual({ AND: [clean, explicit] });
+    expect(generatePrismaFilter("clean or explicit")).toEqual({ OR: [clean, explicit] });
+    expect(generatePrismaFilter("clean or explicit and not unlabeled")).toEqual(
+      generatePrismaFilter("clean || explicit && !unlabeled"),
+    );
+    expect(generatePrismaFilter("(clean)and(explicit)")).toEqual({ AND: [clean, explicit] });
+  });
+
+  it("requires keyword operators to be separated from other words", () => {
+    expect(generatePrismaFilter("cleanand explicit")).toBe(null);
+    expect(generatePrismaFilter("clean andexplicit")).toBe(null);
+    expect(generatePrismaFilter("notclean")).toBe(null);
+  });
+
+  it("tolerates missing and extra whitespace", () => {
+    const filter = { AND: [{ NOT: clean }, { OR: [explicit, unlabeled] }] };
+    expect(generatePrismaFilter("!clean&&(explicit||unlabeled)")).toEqual(filter);
+    expect(generatePrismaFilter("  ! clean  &&  ( explicit  ||  unlabeled )  ")).toEqual(filter);
+    expect(generatePrismaFilter('clean&&artist:"Name"')).toEqual({
+      AND: [clean, { artists: { some: { name: "Name" } } }],
+    });
+  });
+
   it("doesn't throw with invalid input", () => {
     expect(generatePrismaFilter('label:"name')).toBe(null);
   });
 });
+
+describe("parseSmartCriteria", () => {
+  it("returns the filter for valid criteria", () => {
+    expect(parseSmartCriteria("clean")).toEqual({
+      success: true,
+      filter: { explicit: false },
+      sort: null,
+      limit: null,
+    });
+  });
+
+  it("returns sort and limit clauses", () => {
+    expect(parseSmartCriteria("clean sort:released asc limit:100")).toEqual({
+      success: true,
+      filter: { explicit: false },
+      sort: { field: "released", direction: "asc" },
+      limit: 100,
+    });
+    expect(parseSmartCriteria("clean limit:100 sort:name")).toEqual({
+      success: true,
+      filter: { explicit: false },
+      sort: { field: "name", direction: null },
+      limit: 100,
+    });
+    expect(parseSmartCriteria("clean || explicit sort:random")).toEqual({
+      success: true,
+      filter: { OR: [{ explicit: false }, { explicit: true }] },
+      sort: { field: "random", direction: null },
+      limit: null,
+    });
+    expect(parseSmartCriteria("explicit sort:added desc")).toEqual({
+      success: true,
+      filter: { explicit: true },
+      sort: { field: "added", direction: "desc" },
+      limit: null,
+    });
+  });
+
+  it("reports misplaced sort and limit clauses", () => {
+    expect(parseSmartCriteria("sort:name")).toEqual({
+      success: false,
+      error: expect.objectContaining({ offset: 0, token: "sort:" }),
+    });
+    expect(parseSmartCriteria("clean sort:name && explicit")).toEqual({
+      success: false,
+      error: expect.objectContaining({ offset: 16, token: "&&" }),
+    });
+    expect(parseSmartCriteria("clean sort:random asc")).toEqual({
+      success: false,
+      error: expect.objectContaining({ offset: 18, token: "asc" }),
+    });
+    expect(parseSmartCriteria("clean limit:10 limit:20")).toEqual({
+      success: false,
+      error: expect.objectContaining({ offset: 15, token: "limit:" }),
+    });
+    expect(parseSmartCriteria("clean sort:")).toEqual({
+      success: false,
+      error: expect.objectContaining({ message: "expected a filter or a sort order after sort:" }),
+    });
+  });
+
+  it("ignores the clauses of referenced smart labels", () => {
+    expect(
+      parseSmartCriteria('label:"Top"', new Map([["Top", ["explicit sort:name limit:10"]]])),
+    ).toEqual({
+      success: true,
+      filter: { OR: [{ labels: { some: { name: "Top" } } }, { explicit: true }] },
+      sort: null,
+      limit: null,
+    });
+  });
+
+  it("reports unterminated strings", () => {
+    expect(parseSmartCriteria('artist:"name')).toEqual({
+      success: false,
+      error: {
+        offset: 7,
+        length: 5,
+        token: '"name',
+        expected: ["quotedString"],
+        message: "expected a quoted string after artist:",
+      },
+    });
+  });
+
+  it("reports criteria that end too soon", () => {
+    expect(parseSmartCriteria("artist:")).toEqual({
+      success: false,
+      error: {
+        offset: 7,
+        length: 0,
+        token: null,
+        expected: ["quotedString"],
+        message: "expected a quoted string after artist:",
+      },
+    });
+  });
+
+  it("reports unexpected tokens", () => {
+    expect(parseSmartCriteria("added=7d clean")).toEqual({
+      success: false,
+      error: expect.objectContaining({
+        offset: 9,
+        length: 5,
+        token: "clean",
+        message: 'expected "&&" or "||" or "sort:" or "limit:"',
+      }),
+    });
+    expect(parseSmartCriteria("added=")).toEqual({
+      success: false,
+      error: expect.objectContaining({
+        offset: 6,
+        token: null,
+        expected: ["number", "isoDate", "yearMonth", "decade", "calendarKw"],
+        message: "expected a number or a date after =",
+      }),
+    });
+  });
+
+  it("reports errors at the start of the criteria", () => {
+    expect(parseSmartCriteria("&& clean")).toEqual({
+      success: false,
+      error: expect.objectContaining({
+        offset: 0,
+        token: "&&",
+        message: 'expected "!" or "(" or a filter',
+      }),
+    });
+  });
+
+  it("reports untokenizable input", () => {
+    expect(parseSmartCriteria("clean && %")).toEqual({
+      success: false,
+      error: expect.objectContaining({
+        offset: 9,
+        length: 1,
+        token: "%",
+        message: 'expected "!" or "(" or a filter after &&',
+      }),
+    });
+  });
+
+  it("reports dates that don't exist", () => {
+    expect(parseSmartCriteria("added=2020-13")).toEqual({
+      success: false,
+      error: {
+        offset: 6,
+        length: 7,
+        token: "2020-13",
+        expected: [],
+        message: "invalid month",
+      },
+    });
+    expect(parseSmartCriteria("clean && released=13-45-2020")).toEqual({
+      success: false,
+      error: expect.objectContaining({ offset: 18, token: "13-45-2020", message: "invalid month" }),
+    });
+    expect(parseSmartCriteria("added=2021-02-29")).toEqual({
+      success: false,
+      error: expect.objectContaining({ offset: 6, token: "2021-02-29", message: "invalid day" }),
+    });
+    expect(parseSmartCriteria("added=2020..4-31-2021")).toEqual({
+      success: false,
+      error: expect.objectContaining({ offset: 12, token: "4-31-2021", message: "invalid day" }),
+    });
+    expect(parseSmartCriteria("added=2020-02-29").success).toBe(true);
+  });
+
+  it("reports date ranges that end before they start", () => {
+    expect(parseSmartCriteria("clean || added=today..last-year")).toEqual({
+      success: false,
+      error: {
+        offset: 15,
+        length: 16,
+        token: "today..last-year",
+        expected: [],
+        message: "the date range ends before it starts",
+      },
+    });
+    expect(parseSmartCriteria("added=2021..2020").success).toBe(false);
+    expect(parseSmartCriteria("added=2020..2020").success).toBe(true);
+    expect(parseSmartCriteria("added=last-year..today sort:added").success).toBe(true);
+  });
+});
+
+describe("smart label references", () => {
+  const clean = { explicit: false };
+  const explicit = { explicit: true };
+
+  it("leaves references to dumb labels unchanged", () => {
+    const smartLabels = new Map([["Smart", ["clean"]]]);
+    expect(generatePrismaFilter('label:"Dumb"', smartLabels)).toEqual({
+      labels: { some: { name: "Dumb" } },
+    });
+  });
+
+  it("expands references to smart labels", () => {
+    const smartLabels = new Map([["Smart", ["clean"]]]);
+    expect(generatePrismaFilter('!label:"Smart" && explicit', smartLabels)).toEqual({
+      AND: [{ NOT: { OR: [{ labels: { some: { name: "Smart" } } }, clean] } }, explicit],
+    });
+  });
+
+  it("expands smart labels with duplicate names", () => {
+    const smartLabels = new Map([["Smart", ["clean", "explicit"]]]);
+    expect(generatePrismaFilter('label:"Smart"', smartLabels)).toEqual({
+      OR: [{ labels: { some: { name: "Smart" } } }, clean, explicit],
+    });
+  });
+
+  it("recursively expands references", () => {
+    const smartLabels = new Map([
+      ["Outer", ['label:"Inner" || explicit']],
+      ["Inner", ["clean"]],
+    ]);
+    expect(generatePrismaFilter('label:"Outer"', smartLabels)).toEqual({
+      OR: [
+        { labels: { some: { name: "Outer" } } },
+        { OR: [{ OR: [{ labels: { some: { name: "Inner" } } }, clean] }, explicit] },
+      ],
+    });
+  });
+
+  it("expands a label referenced multiple times without a cycle", () => {
+    const smartLabels = new Map([
+      ["A", ['label:"C" && label:"C"']],
+      ["C", ["clean"]],
+    ]);
+    expect(parseSmartCriteria('label:"A" || label:"C"', smartLabels).success).toBe(true);
+  });
+
+  it("reports cycles", () => {
+    const smartLabels = new Map([
+      ["A", ['label:"B"']],
+      ["B", ['clean && label:"A"']],
+    ]);
+    expect(parseSmartCriteria('explicit || label:"A"', smartLabels)).toEqual({
+      success: false,
+      error: {
+        offset: 12,
+        length: 9,
+        token: 'label:"A"',
+        expected: [],
+        message: 'smart label "A" references itself ("A" → "B" → "A")',
+      },
+    });
+  });
+
+  it("reports references to smart labels with invalid criteria", () => {
+    const smartLabels = new Map([["Invalid", ["clean &&"]]]);
+    expect(parseSmartCriteria('label:"Invalid"', smartLabels)).toEqual({
+      success: false,
+      error: expect.objectContaining({
+        offset: 0,
+        message: 'smart label "Invalid" has invalid smart criteria',
+      }),
+    });
+  });
+});
+
+describe("time zones", () => {
+  // 10pm on 3/31 in New York, but already 4/1 in the other time zones
+  beforeEach(() => {
+    jest.setSystemTime(new Date("2022-04-01T02:00:00Z"));
+  });
+  afterEach(() => {
+    jest.setSystemTime(new Date(2022, 3, 1));
+  });
+
+  const cases = [
+    {
+      timeZone: "UTC",
+      day: ["2022-04-01T00:00:00Z", "2022-04-02T00:00:00Z"],
+      month: ["2022-04-01T00:00:00Z", "2022-05-01T00:00:00Z"],
+      today: ["2022-04-01T00:00:00Z", "2022-04-02T00:00:00Z"],
+      monthAgo: "2022-03-01T02:00:00Z",
+    },
+    {
+      // Daylight saving time started in March, so a month ago was an hour further from UTC
+      timeZone: "America/New_York",
+      day: ["2022-04-01T04:00:00Z", "2022-04-02T04:00:00Z"],
+      month: ["2022-04-01T04:00:00Z", "2022-05-01T04:00:00Z"],
+      today: ["2022-03-31T04:00:00Z", "2022-04-01T04:00:00Z"],
+      monthAgo: "2022-03-01T03:00:00Z",
+    },
+    {
+      timeZone: "Asia/Kolkata",
+      day: ["2022-03-31T18:30:00Z", "2022-04-01T18:30:00Z"],
+      month: ["2022-03-31T18:30:00Z", "2022-04-30T18:30:00Z"],
+      today: ["2022-03-31T18:30:00Z", "2022-04-01T18:30:00Z"],
+      monthAgo: "2022-03-01T02:00:00Z",
+    },
+    {
+      // Daylight saving time ends in the middle of April
+      timeZone: "Pacific/Auckland",
+      day: ["2022-03-31T11:00:00Z", "2022-04-01T11:00:00Z"],
+      month: ["2022-03-31T11:00:00Z", "2022-04-30T12:00:00Z"],
+      today: ["2022-03-31T11:00:00Z", "2022-04-01T11:00:00Z"],
+      monthAgo: "2022-03-01T02:00:00Z",
+    },
+  ];
+
+  describe.each(cases)("in $timeZone", ({ timeZone, day, month, today, monthAgo }) => {
+    const range = ([start, end]: string[]) => ({ gte: new Date(start!), lt: new Date(end!) });
+
+    it("interprets absolute dates", () => {
+      expect(generatePrismaFilter("added=4-1-2022", new Map(), timeZone)).toEqual({
+        dateAdded: range(day),
+      });
+      expect(generatePrismaFilter("released=2022-04", new Map(), timeZone)).toEqual({
+        album: { dateReleased: range(month) },
+      });
+      expect(generatePrismaFilter("released=4-1-2022..2022-04", new Map(), timeZone)).toEqual({
+        album: { dateReleased: { gte: range(day).gte, lt: range(month).lt } },
+      });
+    });
+
+    it("interprets calendar periods", () => {
+      expect(generatePrismaFilter("added=today", new Map(), timeZone)).toEqual({
+        dateAdded: range(today),
+      });
+      expect(generatePrismaFilter("released<today", new Map(), timeZone)).toEqual({
+        album: { dateReleased: { lt: range(today).gte } },
+      });
+    });
+
+    it("interprets relative dates", () => {
+      expect(generatePrismaFilter("added<1m", new Map(), timeZone)).toEqual({
+        dateAdded: { gt: new Date(monthAgo) },
+      });
+      expect(generatePrismaFilter("released>=1m", new Map(), timeZone)).toEqual({
+        album: { dateReleased: { lte: new Date(monthAgo) } },
+      });
+    });
+  });
+});
+
+describe("compileSort", () => {
+  it("orders by most recently added by default", () => {
+    expect(compileSort(null)).toEqual([{ dateAdded: "desc" }]);
+    expect(compileSort({ field: "added", direction: null })).toEqual([{ dateAdded: "desc" }]);
+    expect(compileSort({ field: "added", direction: "asc" })).toEqual([{ dateAdded: "asc" }]);
+  });
+
+  it("breaks ties by most recently added", () => {
+    expect(compileSort({ field: "released", direction: "asc" })).toEqual([
+      { album: { dateReleased: "asc" } },
+      { dateAdded: "desc" },
+    ]);
+    expect(compileSort({ field: "name", direction: null })).toEqual([
+      { name: "asc" },
+      { dateAdded: "desc" },
+    ]);
+  });
+});
+
+describe("getCriteriaCompletions", () => {
+  const examples = [
+    { value: 'artist:"Rolling Stones"', description: "Artist is Rolling Stones" },
+    { value: 'artist:"Radiohead"', description: "Artist is Radiohead" },
+    { value: 'label:"Road trip"', description: 'Has label "Road trip"' },
+    { value: "added=2020", description: "Added in 2020" },
+    { value: "added=2020..2021", description: "Added between 2020 and 2021" },
+    { value: "sort:random", description: "Random order" },
+  ];
+  const completionValues = (criteria: string) =>
+    getCriteriaCompletions(criteria, examples).map(({ value }) => value);
+
+  it("suggests filters at the start of the criteria", () => {
+    const values = completionValues("");
+    expect(values).toEqual(expect.arrayContaining(["clean", "!", "(", 'artist:"Radiohead"']));
+    expect(values).not.toContain("&&");
+    expect(values).not.toContain("sort:random");
+  });
+
+  it("suggests operators and clauses after a term", () => {
+    const values = completionValues("clean");
+    expect(values).toEqual(expect.arrayContaining(["clean &&", "clean ||", "clean sort:"]));
+    expect(values).not.toContain("clean clean");
+    expect(completionValues("clean ")).toEqual(
+      expect.arrayContaining(["clean &&", "clean sort:random"]),
+    );
+  });
+
+  it("completes partially typed tokens", () => {
+    expect(completionValues("clean && ex")).toEqual(["clean && explicit"]);
+    expect(completionValues("(cl")).toEqual(["(clean"]);
+    expect(completionValues("a")).toEqual(
+      expect.arrayContaining(["added", "album:", "artist:", 'artist:"Radiohead"']),
+    );
+  });
+
+  it("filters names by prefix", () => {
+    expect(completionValues('clean && artist:"R')).toEqual([
+      'clean && artist:"Rolling Stones"',
+      'clean && artist:"Radiohead"',
+    ]);
+    expect(completionValues('artist:"Ra')).toEqual(['artist:"Radiohead"']);
+    expect(completionValues("ro")).toEqual(['artist:"Rolling Stones"', 'label:"Road trip"']);
+  });
+
+  it("suggests date syntax", () => {
+    expect(completionValues("added")).toEqual(
+      expect.arrayContaining(["added=", "added<", "added>="]),
+    );
+    expect(completionValues("added=")).toEqual(
+      expect.arrayContaining(["added=today", "added=last-month", "added=2020"]),
+    );
+    expect(completionValues("added=3")).toEqual(
+      expect.arrayContaining(["added=3d", "added=3w", "added=3..", "added=3 &&"]),
+    );
+    expect(completionValues("added=2020")).toEqual(
+      expect.arrayContaining(["added=2020..", "added=2020..2021"]),
+    );
+    expect(completionValues("added=2020")).not.toContain("added=2020");
+  });
+
+  it("only suggests valid comparisons and keys", () => {
+    expect(completionValues("key")).toEqual(["key="]);
+    expect(completionValues("key=")).toEqual(expect.arrayContaining(['key="C"', 'key="C#"']));
+    expect(completionValues('name:"')).not.toContain('name:"C"');
+  });
+
+  it("doesn't suggest anything after invalid criteria", () => {
+    expect(completionValues("clean clean")).toEqual([]);
+  });
+});
+
+describe("getReferencedLabels", () => {
+  it("finds label references", () => {
+    expect(getReferencedLabels('label:"A" && (label: "B" || !label:"A") && artist:"C"')).toEqual([
+      "A",
+      "B",
+    ]);
+    expect(getReferencedLabels("clean")).toEqual([]);
+  });
+
+  it("finds references in invalid criteria", () => {
+    expect(getReferencedLabels('label:"A" &&')).toEqual(["A"]);
+  });
+});
+
+describe("renameLabelReferences", () => {
+  it("renames references while preserving the rest of the criteria", () => {
+    expect(
+      renameLabelReferences('label:"Old"  and (label: "Old" or label:"Other")', "Old", "New name"),
+    ).toBe('label:"New name"  and (label: "New name" or label:"Other")');
+  });
+
+  it("leaves other filters with the same text unchanged", () => {
+    expect(renameLabelReferences('artist:"Old" || label:"Older"', "Old", "New")).toBe(
+      'artist:"Old" || label:"Older"',
+    );
+  });
+});
@@ -1,13 +1,745 @@
-import parser from "./labelGrammar";
+import { map, uniq, uniqBy } from "lodash";
+import {
+  AbsoluteDate,
+  CriteriaClauses,
+  CriteriaDate,
+  CriteriaNode,
+  CriteriaQuery,
+  DateNode,
+  DateRange,
+  keyNames,
+} from "./criteriaAst";
+import {
+  CompileOptions,
+  LabelReferenceError,
+  compileCriteria,
+  isReversedRange,
+} from "./criteriaCompiler";
+import { EvaluatedTrack, evaluateCriteria } from "./criteriaEvaluator";
+import { formatCriteria } from "./criteriaFormatter";
+import parser, { lexer } from "./labelGrammar";
 import { Prisma } from "db";
 
-// Generate a prisma `where` clause from a criteria string or null if the criteria is invalid
-export function generatePrismaFilter(criteria: string): Prisma.TrackWhereInput | null {
+// A token produced by the criteria lexer
+type Token = {
+  type: string;
+  text: string;
+  offset: number;
+};
+
+// Information about why a criteria string could not be parsed or references smart labels that
+// can't be expanded
+export type SmartCriteriaError = {
+  // The character offset in the criteria where the error occurred
+  offset: number;
+  // The number of characters in the offending token, zero if the criteria ended unexpectedly
+  length: number;
+  // The text of the offending token, or null if the criteria ended unexpectedly
+  token: string | null;
+  // The kinds of tokens that would have been valid at the offset
+  expected: string[];
+  // A human-readable explanation of the error
+  message: string;
+};
+
+export type CriteriaAstResult =
+  | ({ success: true; ast: CriteriaNode } & CriteriaClauses)
+  | { success: false; error: SmartCriteriaError };
+
+export type SmartCriteriaResult =
+  | ({ success: true; filter: Prisma.TrackWhereInput } & CriteriaClauses)
+  | { success: false; error: SmartCriteriaError };
+
+export type SmartCriteriaMatchResult =
+  | { success: true; matches: boolean }
+  | { success: false; error: SmartCriteriaError };
+
+// The criteria of a user's smart labels, keyed by label name
+// Label names aren't unique, so a name can have multiple criteria
+export type SmartLabelCriteria = Map<string, string[]>;
+
+// The kinds of tokens that the lexer produces, each with an example of the token and a
+// human-readable description
+// Keyword operators are described by the symbolic operator that they are aliases for
+// Kinds with multiple examples are described by the first example that is valid, because only some
+// of their values are valid in some places, like "=" being the only valid comparison for keys
+const filterDescription = "a filter";
+const tokenKinds: { type: string; sample: string; description: string }[] = [
+  { type: "not", sample: "!", description: '"!"' },
+  { type: "notKw", sample: "not", description: '"!"' },
+  { type: "lparen", sample: "(", description: '"("' },
+  { type: "cleanKw", sample: "clean", description: filterDescription },
+  { type: "explicitKw", sample: "explicit", description: filterDescription },
+  { type: "unlabeledKw", sample: "unlabeled", description: filterDescription },
+  { type: "nameKw", sample: "name:", description: filterDescription },
+  { type: "labelKw", sample: "label:", description: filterDescription },
+  { type: "albumKw", sample: "album:", description: filterDescription },
+  { type: "artistKw", sample: "artist:", description: filterDescription },
+  { type: "genreKw", sample: "genre:", description: filterDescription },
+  { type: "addedKw", sample: "added", description: filterDescription },
+  { type: "releasedKw", sample: "released", description: filterDescription },
+  { type: "numberKw", sample: "tempo", description: filterDescription },
+  { type: "durationKw", sample: "duration", description: filterDescription },
+  { type: "keyKw", sample: "key", description: filterDescription },
+  { type: "and", sample: "&&", description: '"&&"' },
+  { type: "andKw", sample: "and", description: '"&&"' },
+  { type: "or", sample: "||", description: '"||"' },
+  { type: "orKw", sample: "or", description: '"||"' },
+  { type: "rparen", sample: ")", description: '")"' },
+  { type: "sortKw", sample: "sort:", description: '"sort:"' },
+  { type: "limitKw", sample: "limit:", description: '"limit:"' },
+  { type: "nameFieldKw", sample: "name", description: "a sort order" },
+  { type: "randomKw", sample: "random", description: "a sort order" },
+  { type: "ascKw", sample: "asc", description: "a sort direction (asc or desc)" },
+  { type: "descKw", sample: "desc", description: "a sort direction (asc or desc)" },
+  { type: "comparison", sample: "<", description: "a comparison (=, <, <=, >, >=)" },
+  { type: "comparison", sample: "=", description: '"="' },
+  { type: "number", sample: "1", description: "a number" },
+  { type: "decimal", sample: "0.5", description: "a number" },
+  { type: "isoDate", sample: "2020-01-01", description: "a date" },
+  { type: "yearMonth", sample: "2020-01", description: "a date" },
+  { type: "decade", sample: "1990s", description: "a date" },
+  { type: "calendarKw", sample: "today", description: "a date" },
+  { type: "range", sample: "..", description: '".."' },
+  { type: "dash", sample: "-", description: '"-"' },
+  { type: "dateUnit", sample: "d", description: "a date unit (d, w, m, or y)" },
+  { type: "dateUnit", sample: "m", description: "a duration unit (m or s)" },
+  { type: "secondsUnit", sample: "s", description: "a duration unit (m or s)" },
+  { type: "quotedString", sample: '"_"', description: "a quoted string" },
+  { type: "keyName", sample: '"C"', description: 'a key (like "C#" or "Db")' },
+];
+
+// Tokens that end a complete term, so an error after them isn't caused by a missing operand
+const termEndTokens = new Set([
+  "number",
+  "decimal",
+  "isoDate",
+  "yearMonth",
+  "decade",
+  "calendarKw",
+  "dateUnit",
+  "secondsUnit",
+  "quotedString",
+  "keyName",
+  "rparen",
+  "cleanKw",
+  "explicitKw",
+  "unlabeledKw",
+  "nameFieldKw",
+  "randomKw",
+  "ascKw",
+  "descKw",
+]);
+
+// Split a criteria string into tokens
+// If part of the criteria can't be tokenized, the last token will have the type "invalid" and
+// contain the untokenizable text
+function tokenize(criteria: string): Token[] {
+  const tokens: Token[] = [];
+  lexer.reset(criteria);
+  try {
+    for (const { type, text, offset } of lexer) {
+      tokens.push({ type, text, offset });
+    }
+  } catch (err) {
+    // The untokenizable text starts at the first non-whitespace character after the last token
+    const lastToken = tokens[tokens.length - 1];
+    const lastTokenEnd = lastToken ? lastToken.offset + lastToken.text.length : 0;
+    const [, whitespace = "", text = ""] = /^( *)(\S*)/.exec(criteria.slice(lastTokenEnd)) ?? [];
+    const offset = lastTokenEnd + whitespace.length;
+    tokens.push({ type: "invalid", text: text || criteria.charAt(offset), offset });
+  }
+  return tokens;
+}
+
+// Determine whether criteria is valid or could become valid if more tokens were added to the end
+function isValidPrefix(criteria: string): boolean {
+  const result = parser.parse(criteria);
+  return result.success || result.failureType === "incomplete";
+}
+
+// Determine which kinds of tokens the parser would accept after the given prefix of the criteria
+// The parser only reports predictions for incomplete input, so instead, try appending an example
+// of each kind of token and see which ones the parser doesn't reject
+function getExpectedTokens(prefix: string): typeof tokenKinds {
+  const expected = uniqBy(
+    tokenKinds.filter(({ sample }) => isValidPrefix(`${prefix} ${sample}`)),
+    "type",
+  );
+
+  // Key names are also quoted strings, so only expect them specifically where other quoted strings
+  // aren't valid
+  return expected.some(({ type }) => type === "quotedString")
+    ? expected.filter(({ type }) => type !== "keyName")
+    : expected;
+}
+
+// Build an error describing the parse failure at a specific token
+function makeError(criteria: string, tokens: Token[], failedIndex: number): SmartCriteriaError {
+  const failedToken = tokens[failedIndex];
+  const previousToken = tokens[failedIndex - 1];
+  const offset = failedToken ? failedToken.offset : criteria.length;
+  const expected = getExpectedTokens(criteria.slice(0, offset));
+
+  const descriptions = uniq(map(expected, "description"));
+  let message =
+    descriptions.length === 0
+      ? `unexpected ${failedToken ? `"${failedToken.text}"` : "end of criteria"}`
+      : `expected ${descriptions.join(" or ")}`;
+  if (previousToken && !termEndTokens.has(previousToken.type)) {
+    message += ` after ${previousToken.text}`;
+  }
+
+  return {
+    offset,
+    length: failedToken?.text.length ?? 0,
+    token: failedToken?.text ?? null,
+    expected: map(expected, "type"),
+    message,
+  };
+}
+
+// Build an error describing a label reference that couldn't be expanded, positioned at the
+// reference in the original criteria that led to it
+function makeLabelReferenceError(
+  criteria: string,
+  tokens: Token[],
+  err: LabelReferenceError,
+): SmartCriteriaError {
+  const labelIndex = tokens.findIndex(
+    (token, index) =>
+      token.type === "labelKw" && tokens[index + 1]?.text === `"${err.labelPath[0]}"`,
+  );
+  const labelToken = tokens[labelIndex];
+  const nameToken = tokens[labelIndex + 1];
+  const offset = labelToken?.offset ?? 0;
+  const end = nameToken ? nameToken.offset + nameToken.text.length : criteria.length;
+  return {
+    offset,
+    length: end - offset,
+    token: criteria.slice(offset, end),
+    expected: [],
+    message: err.message,
+  };
+}
+
+// The kinds of tokens that dates in date filters are made of
+const dateTokens = new Set([
+  "number",
+  "dash",
+  "isoDate",
+  "yearMonth",
+  "decade",
+  "calendarKw",
+  "dateUnit",
+  "range",
+]);
+
+// Find the span of text covered by the tokens from `first` to `last`, inclusive
+function getTokenSpan(tokens: Token[], first: number, last: number): [number, number] {
+  const lastToken = tokens[last];
+  return [tokens[first]?.offset ?? 0, lastToken ? lastToken.offset + lastToken.text.length : 0];
+}
+
+// Build an error covering the tokens from `first` to `last`, inclusive
+function makeSpanError(
+  criteria: string,
+  tokens: Token[],
+  first: number,
+  last: number,
+  message: string,
+): SmartCriteriaError {
+  const [offset, end] = getTokenSpan(tokens, first, last);
+  return {
+    offset,
+    length: end - offset,
+    token: criteria.slice(offset, end),
+    expected: [],
+    message,
+  };
+}
+
+// Parse the text of a valid date, like "2020-04" or "2020..today"
+function parseDateText(text: string): CriteriaDate {
+  const result = parser.parse(`added=${text}`);
+  if (!result.success) {
+    throw new Error(`Invalid date "${text}"`);
+  }
+  return ((result.result as CriteriaQuery).filter as DateNode).date;
+}
+
+// Explain why an absolute date doesn't exist, or return null if it does
+// new Date() would silently roll over out-of-range values, like month 13 into the next year
+function getAbsoluteDateError({ year, month, day }: AbsoluteDate): string | null {
+  if (month < 1 || month > 12) {
+    return "invalid month";
+  }
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? null : "invalid day";
+}
+
+// Find the first date in valid criteria that doesn't exist or is a range that ends before it
+// starts, and build an error describing it
+function findInvalidDate(criteria: string, tokens: Token[]): SmartCriteriaError | null {
+  for (let index = 0; index < tokens.length; ++index) {
+    // Dates follow the comparison in "added" and "released" filters, unlike the "added" and
+    // "released" sort fields
+    const type = tokens[index]?.type;
+    if ((type !== "addedKw" && type !== "releasedKw") || tokens[index + 1]?.type !== "comparison") {
+      continue;
+    }
+
+    const first = index + 2;
+    let last = first;
+    while (dateTokens.has(tokens[last + 1]?.type ?? "")) {
+      ++last;
+    }
+    const textOf = (start: number, end: number): string =>
+      criteria.slice(...getTokenSpan(tokens, start, end));
+
+    // Check each end of a range separately so that the error points at the invalid end
+    const rangeIndex = tokens.findIndex(
+      (token, tokenIndex) => tokenIndex > first && tokenIndex < last && token.type === "range",
+    );
+    const parts: [number, number][] =
+      rangeIndex === -1
+        ? [[first, last]]
+        : [
+            [first, rangeIndex - 1],
+            [rangeIndex + 1, last],
+          ];
+    for (const [partFirst, partLast] of parts) {
+      const date = parseDateText(textOf(partFirst, partLast));
+      const message = date.type === "absolute" ? getAbsoluteDateError(date) : null;
+      if (message !== null) {
+        return makeSpanError(criteria, tokens, partFirst, partLast, message);
+      }
+    }
+
+    if (rangeIndex !== -1 && isReversedRange(parseDateText(textOf(first, last)) as DateRange)) {
+      return makeSpanError(criteria, tokens, first, last, "the date range ends before it starts");
+    }
+  }
+  return null;
+}
+
+// Parse a criteria string into an AST, or an error describing why the criteria is invalid
+export function parseCriteriaAst(criteria: string): CriteriaAstResult {
   const result = parser.parse(criteria);
-  return result.success ? (result.result as Prisma.TrackWhereInput) : null;
+  if (result.success) {
+    // The grammar accepts any numbers in dates, so reject dates that don't exist separately
+    const dateError = findInvalidDate(criteria, tokenize(criteria));
+    if (dateError) {
+      return { success: false, error: dateError };
+    }
+
+    const { filter, sort, limit } = result.result as CriteriaQuery;
+    return { success: true, ast: filter, sort, limit };
+  }
+
+  // Find the first token that makes the criteria invalid by parsing progressively longer prefixes
+  // of the criteria
+  const tokens = tokenize(criteria);
+  const failedIndex = tokens.findIndex((token) => {
+    if (token.type === "invalid") {
+      return true;
+    }
+
+    const prefixResult = parser.parse(criteria.slice(0, token.offset + token.text.length));
+    return !prefixResult.success && prefixResult.failureType !== "incomplete";
+  });
+
+  // If none of the tokens are invalid, then the criteria ended too soon
+  return {
+    success: false,
+    error: makeError(criteria, tokens, failedIndex === -1 ? tokens.length : failedIndex),
+  };
+}
+
+// Create compile options that resolve smart label references from a user's smart labels and
+// interpret dates in the user's time zone
+// Only the filters of referenced smart labels are used, not their sort and limit clauses
+function makeCompileOptions(
+  smartLabels: SmartLabelCriteria,
+  timeZone: string | undefined,
+): CompileOptions {
+  return {
+    timeZone,
+    resolveSmartLabel: (name) =>
+      (smartLabels.get(name) ?? []).map((labelCriteria) => {
+        const labelResult = parseCriteriaAst(labelCriteria);
+        return labelResult.success ? labelResult.ast : null;
+      }),
+  };
+}
+
+// Call a function that compiles or evaluates criteria, converting label reference errors it
+// throws into a criteria error
+function catchLabelReferenceErrors<Result>(
+  criteria: string,
+  func: () => Result,
+): { success: true; value: Result } | { success: false; error: SmartCriteriaError } {
+  try {
+    return { success: true, value: func() };
+  } catch (err) {
+    if (err instanceof LabelReferenceError) {
+      return {
+        success: false,
+        error: makeLabelReferenceError(criteria, tokenize(criteria), err),
+      };
+    }
+    throw err;
+  }
+}
+
+// Parse a criteria string into a prisma `where` clause, or an error describing why the criteria
+// is invalid
+// References to the smart labels in `smartLabels` are recursively expanded into their criteria,
+// and dates are interpreted in `timeZone`, defaulting to the server's time zone
+export function parseSmartCriteria(
+  criteria: string,
+  smartLabels: SmartLabelCriteria = new Map(),
+  timeZone?: string,
+): SmartCriteriaResult {
+  const result = parseCriteriaAst(criteria);
+  if (!result.success) {
+    return result;
+  }
+
+  const options = makeCompileOptions(smartLabels, timeZone);
+  const compileResult = catchLabelReferenceErrors(criteria, () =>
+    compileCriteria(result.ast, options),
+  );
+  return compileResult.success
+    ? { success: true, filter: compileResult.value, sort: result.sort, limit: result.limit }
+    : compileResult;
+}
+
+// Determine whether a track matches a criteria string without querying the database, or return an
+// error describing why the criteria is invalid
+export function evaluateSmartCriteria(
+  criteria: string,
+  track: EvaluatedTrack,
+  smartLabels: SmartLabelCriteria = new Map(),
+  timeZone?: string,
+): SmartCriteriaMatchResult {
+  const result = parseCriteriaAst(criteria);
+  if (!result.success) {
+    return result;
+  }
+
+  const options = makeCompileOptions(smartLabels, timeZone);
+  const evaluateResult = catchLabelReferenceErrors(criteria, () => {
+    // Compile the criteria first so that invalid smart label references are reported even if
+    // evaluation short-circuits before reaching them
+    compileCriteria(result.ast, options);
+    return evaluateCriteria(result.ast, track, options);
+  });
+  return evaluateResult.success ? { success: true, matches: evaluateResult.value } : evaluateResult;
+}
+
+// Find the tokens containing the quoted names in label references
+// Names that look like keys, like "C", are lexed as key names
+function findLabelNameTokens(tokens: Token[]): Token[] {
+  return tokens.filter(
+    (token, index) =>
+      (token.type === "quotedString" || token.type === "keyName") &&
+      tokens[index - 1]?.type === "labelKw",
+  );
+}
+
+// Find the names of the labels that a criteria string references
+// References before the first invalid token are found even if the criteria is invalid
+export function getReferencedLabels(criteria: string): string[] {
+  return uniq(findLabelNameTokens(tokenize(criteria)).map((token) => token.text.slice(1, -1)));
+}
+
+// Replace references to a label in a criteria string with references to its new name, leaving the
+// rest of the criteria's text unchanged
+export function renameLabelReferences(criteria: string, oldName: string, newName: string): string {
+  // Replace the references from last to first so that the offsets of earlier references stay valid
+  return findLabelNameTokens(tokenize(criteria))
+    .filter((token) => token.text === `"${oldName}"`)
+    .reverse()
+    .reduce(
+      (renamed, token) =>
+        `${renamed.slice(0, token.offset)}"${newName}"${renamed.slice(
+          token.offset + token.text.length,
+        )}`,
+      criteria,
+    );
+}
+
+// Convert a criteria string into its canonical form, leaving invalid criteria unchanged
+export function normalizeSmartCriteria(criteria: string): string {
+  const result = parseCriteriaAst(criteria);
+  return result.success ? formatCriteria(result.ast, result) : criteria;
+}
+
+// Generate a prisma `where` clause from a criteria string or null if the criteria is invalid
+export function generatePrismaFilter(
+  criteria: string,
+  smartLabels?: SmartLabelCriteria,
+  timeZone?: string,
+): Prisma.TrackWhereInput | null {
+  const result = parseSmartCriteria(criteria, smartLabels, timeZone);
+  return result.success ? result.filter : null;
 }
 
 // Return a boolean indicating whether the smart criteria is valid
 export function validateSmartCriteria(criteria: string): boolean {
   return generatePrismaFilter(criteria) !== null;
 }
+
+// A complete term that can be suggested while typing criteria, like `artist:"Name"` or "added=2020"
+export type CriteriaExample = {
+  value: string;
+  description: string;
+};
+
+// A suggested edit to criteria that is being typed
+export type CriteriaCompletion = {
+  // The complete criteria after accepting the suggestion
+  value: string;
+  // The text that the suggestion inserts
+  text: string;
+  description: string;
+};
+
+// The text of the tokens that can be suggested for each kind of token
+// Kinds of tokens with arbitrary text, like numbers and quoted strings, are suggested by examples
+// instead
+const tokenCompletions: Record<string, { text: string; description: string }[]> = {
+  not: [{ text: "!", description: "Not" }],
+  notKw: [{ text: "not", description: "Not" }],
+  lparen: [{ text: "(", description: "Start a group" }],
+  rparen: [{ text: ")", description: "End a group" }],
+  cleanKw: [{ text: "clean", description: "Clean" }],
+  explicitKw: [{ text: "explicit", description: "Explicit" }],
+  unlabeledKw: [{ text: "unlabeled", description: "Has no labels" }],
+  nameKw: [{ text: "name:", description: "Name includes" }],
+  labelKw: [{ text: "label:", description: "Has label" }],
+  albumKw: [{ text: "album:", description: "Album is" }],
+  artistKw: [{ text: "artist:", description: "Artist is" }],
+  genreKw: [{ text: "genre:", description: "Genre includes" }],
+  addedKw: [{ text: "added", description: "Date added" }],
+  releasedKw: [{ text: "released", description: "Release date" }],
+  numberKw: [
+    { text: "tempo", description: "Tempo in beats per minute" },
+    { text: "energy", description: "Energy from 0 to 1" },
+    { text: "danceability", description: "Danceability from 0 to 1" },
+    { text: "popularity", description: "Popularity from 0 to 100" },
+  ],
+  durationKw: [{ text: "duration", description: "Duration" }],
+  keyKw: [{ text: "key", description: "Key" }],
+  and: [{ text: "&&", description: "And" }],
+  andKw: [{ text: "and", description: "And" }],
+  or: [{ text: "||", description: "Or" }],
+  orKw: [{ text: "or", description: "Or" }],
+  sortKw: [{ text: "sort:", description: "Sort the tracks" }],
+  limitKw: [{ text: "limit:", description: "Limit the number of tracks" }],
+  nameFieldKw: [{ text: "name", description: "Name" }],
+  randomKw: [{ text: "random", description: "Random order" }],
+  ascKw: [{ text: "asc", description: "Ascending" }],
+  descKw: [{ text: "desc", description: "Descending" }],
+  comparison: [
+    { text: "=", description: "Equal to" },
+    { text: "<", description: "Less than" },
+    { text: "<=", description: "Less than or equal to" },
+    { text: ">", description: "Greater than" },
+    { text: ">=", description: "Greater than or equal to" },
+  ],
+  calendarKw: [
+    { text: "today", description: "Today" },
+    { text: "yesterday", description: "Yesterday" },
+    { text: "this-week", description: "This week" },
+    { text: "last-week", description: "Last week" },
+    { text: "this-month", description: "This month" },
+    { text: "last-month", description: "Last month" },
+    { text: "this-year", description: "This year" },
+    { text: "last-year", description: "Last year" },
+  ],
+  keyName: keyNames.map((name) => ({ text: `"${name}"`, description: `Key of ${name}` })),
+  range: [{ text: "..", description: "Through" }],
+  dateUnit: [
+    { text: "d", description: "Days" },
+    { text: "w", description: "Weeks" },
+    { text: "m", description: "Months or minutes" },
+    { text: "y", description: "Years" },
+  ],
+  secondsUnit: [{ text: "s", description: "Seconds" }],
+};
+
+// Tokens that are written directly after the previous token, without a space
+const attachedTokens = new Set([
+  "comparison",
+  "range",
+  "dash",
+  "dateUnit",
+  "secondsUnit",
+  "rparen",
+]);
+
+// Tokens that the next token is written directly after, without a space
+const attachingTokens = new Set([
+  "not",
+  "lparen",
+  "nameKw",
+  "labelKw",
+  "albumKw",
+  "artistKw",
+  "genreKw",
+  "sortKw",
+  "limitKw",
+  "comparison",
+  "range",
+  "dash",
+]);
+
+// Tokens that start a term
+const filterTokens = new Set([
+  "cleanKw",
+  "explicitKw",
+  "unlabeledKw",
+  "nameKw",
+  "labelKw",
+  "albumKw",
+  "artistKw",
+  "genreKw",
+  "addedKw",
+  "releasedKw",
+  "numberKw",
+  "durationKw",
+  "keyKw",
+]);
+
+// Tokens that can follow the first token of a partially typed term
+const termTokens = new Set([
+  "comparison",
+  "number",
+  "decimal",
+  "isoDate",
+  "yearMonth",
+  "decade",
+  "calendarKw",
+  "range",
+  "dash",
+  "dateUnit",
+  "secondsUnit",
+  "quotedString",
+  "keyName",
+  "invalid",
+]);
+
+// Append a token to criteria, separating them with a space unless the tokens are written together
+function appendToken(criteria: string, tokens: Token[], type: string, text: string): string {
+  const previousToken = tokens[tokens.length - 1];
+  const attached =
+    criteria.length === 0 ||
+    /\s$/.test(criteria) ||
+    attachedTokens.has(type) ||
+    (previousToken !== undefined && attachingTokens.has(previousToken.type));
+  return `${criteria}${attached ? "" : " "}${text}`;
+}
+
+// Find the offset of the term being typed at the end of the criteria, including its filter keyword
+// if it has one, so that `artist:"Na` can be completed to `artist:"Name"`
+function findPartialTermStart(criteria: string, tokens: Token[]): number {
+  const lastToken = tokens[tokens.length - 1];
+  if (!lastToken || /\s$/.test(criteria)) {
+    return criteria.length;
+  }
+
+  // Walk back through the tokens of the term, which aren't separated by whitespace
+  let startIndex = tokens.length - 1;
+  while (startIndex > 0) {
+    const token = tokens[startIndex] as Token;
+    const previousToken = tokens[startIndex - 1] as Token;
+    if (
+      !termTokens.has(token.type) ||
+      previousToken.offset + previousToken.text.length !== token.offset
+    ) {
+      break;
+    }
+    startIndex -= 1;
+  }
+
+  const startToken = tokens[startIndex] as Token;
+  return filterTokens.has(startToken.type) ? startToken.offset : lastToken.offset;
+}
+
+// Determine whether an example could be what the user is typing in the partial term
+// Examples can match by their full text or by the quoted name in them, like `Na` matching
+// `artist:"Name"`
+function matchesPartialTerm(example: string, partial: string): boolean {
+  const lowerPartial = partial.toLowerCase();
+  const quotedName = /"(.*)"$/.exec(example)?.[1] ?? "";
+  return (
+    example.toLowerCase().startsWith(lowerPartial) ||
+    (lowerPartial.length > 0 && quotedName.toLowerCase().startsWith(lowerPartial.replace(/^"/, "")))
+  );
+}
+
+// Suggest ways to continue typing criteria, using the parser to only suggest tokens and examples
+// that are valid at the end of the criteria
+// Suggestions include tokens that can follow the criteria, tokens that can replace the partially
+// typed last token, and examples that can replace the partially typed last term
+export function getCriteriaCompletions(
+  criteria: string,
+  examples: CriteriaExample[],
+): CriteriaCompletion[] {
+  const tokens = tokenize(criteria);
+  const completions: CriteriaCompletion[] = [];
+
+  // Tokens that can follow the criteria
+  // Not every token of an expected kind is valid, like "<" after "key"
+  getExpectedTokens(criteria).forEach(({ type }) => {
+    tokenCompletions[type]?.forEach(({ text, description }) => {
+      const value = appendToken(criteria, tokens, type, text);
+      if (isValidPrefix(value)) {
+        completions.push({ value, text, description });
+      }
+    });
+  });
+
+  // Tokens that can replace the partially typed last token, like "explicit" for "ex"
+  const lastToken = tokens[tokens.length - 1];
+  if (lastToken && !/\s$/.test(criteria)) {
+    const head = criteria.slice(0, lastToken.offset);
+    const partial = criteria.slice(lastToken.offset);
+    getExpectedTokens(head).forEach(({ type }) => {
+      tokenCompletions[type]?.forEach(({ text, description }) => {
+        if (text.startsWith(partial) && text !== partial && isValidPrefix(`${head}${text}`)) {
+          completions.push({ value: `${head}${text}`, text, description });
+        }
+      });
+    });
+  }
+
+  // Examples that can replace the partially typed last term
+  const termStart = findPartialTermStart(criteria, tokens);
+  const head = criteria.slice(0, termStart);
+  const headTokens = tokens.filter((token) => token.offset < termStart);
+  const partial = criteria.slice(termStart);
+  const expectedTypes = new Set(map(getExpectedTokens(head), "type"));
+  examples.forEach(({ value, description }) => {
+    const [firstToken] = tokenize(value);
+    if (
+      firstToken &&
+      expectedTypes.has(firstToken.type) &&
+      value !== partial &&
+      matchesPartialTerm(value, partial)
+    ) {
+      completions.push({
+        value:
+          partial.length > 0
+            ? `${head}${value}`
+            : appendToken(head, headTokens, firstToken.type, value),
+        text: value,
+        description,
+      });
+    }
+  });
+
+  return uniqBy(completions, "value");
+}
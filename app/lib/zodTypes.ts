@@ -3,3 +3,13 @@ import { z } from "zod";
 export const nonEmptyString = z.string().min(1);
 
 export const primaryKey = z.number().positive();
+
+// An IANA time zone name, like "America/New_York"
+export const timeZone = z.string().refine((value) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch (err) {
+    return false;
+  }
+}, "Invalid time zone");
@@ -0,0 +1,34 @@
+import SuperJson from "superjson";
+
+// Thrown when a request to the Spotify API fails and can't be retried
+// `endpoint` is the request's method and path, like "GET /v1/me/tracks", and `body` is the error
+// response that Spotify sent
+export class SpotifyApiError extends Error {
+  name = "SpotifyApiError";
+
+  constructor(public status: number, public endpoint: string, public body: unknown) {
+    super(`Spotify API request ${endpoint} failed with status ${status}`);
+  }
+}
+
+// Register the error so that it keeps its class and properties when it is sent to the client
+SuperJson.registerClass(SpotifyApiError, {
+  identifier: "SpotifyApiError",
+  allowProps: ["message", "stack", "status", "endpoint", "body"],
+});
+
+// Thrown when a request to the Spotify API needs a scope that the user didn't grant, which happens
+// to users who logged in before the app started requesting the scope
+// Refreshed access tokens keep their original scopes, so the user has to log in again to grant it
+export class MissingScopeError extends Error {
+  name = "MissingScopeError";
+
+  constructor(public scope: string) {
+    super(`Spotify access requires the ${scope} scope`);
+  }
+}
+
+SuperJson.registerClass(MissingScopeError, {
+  identifier: "MissingScopeError",
+  allowProps: ["message", "stack", "scope"],
+});
@@ -0,0 +1,30 @@
+import { resolver } from "@blitzjs/rpc";
+import { z } from "zod";
+import { importPlaylists } from "../spotifyApi";
+import { nonEmptyString } from "app/lib/zodTypes";
+import { withSyncLock } from "app/sync/syncLock";
+import db from "db";
+
+const ImportPlaylists = z.object({
+  // The Spotify ids of the playlists to create labels from
+  playlistIds: z.array(nonEmptyString).min(1),
+});
+
+/*
+ * Create a label for each of the Spotify playlists, saving their tracks to the user's favorites.
+ */
+export default resolver.pipe(
+  resolver.zod(ImportPlaylists),
+  resolver.authorize(),
+  async ({ playlistIds }, ctx) => {
+    const userId = ctx.session.userId;
+    const result = await withSyncLock(userId, async () => {
+      const user = await db.user.findFirstOrThrow({ where: { id: userId } });
+      return importPlaylists(user, playlistIds);
+    });
+    return {
+      success: true,
+      data: result,
+    };
+  },
+);
@@ -1,12 +1,30 @@
 import { resolver } from "@blitzjs/rpc";
-import { syncFavoriteTracks } from "../spotifyApi";
+import { z } from "zod";
+import { resyncFavoriteTracks, syncFavoriteTracks } from "../spotifyApi";
+import { withSyncLock } from "app/sync/syncLock";
+import { recordSyncRun } from "app/sync/syncRuns";
 import db from "db";
 
-export default resolver.pipe(resolver.authorize(), async (_, ctx) => {
-  const userId = ctx.session.userId;
-  const user = await db.user.findFirstOrThrow({ where: { id: userId } });
-  await syncFavoriteTracks(user);
-  return {
-    success: true,
-  };
+const PullTracks = z.object({
+  // Walk all of the user's favorite tracks instead of stopping at the first known track, which
+  // also removes tracks that are no longer favorites
+  full: z.boolean().default(false),
 });
+
+export default resolver.pipe(
+  resolver.zod(PullTracks),
+  resolver.authorize(),
+  async ({ full }, ctx) => {
+    const userId = ctx.session.userId;
+    const result = await withSyncLock(userId, async () => {
+      const user = await db.user.findFirstOrThrow({ where: { id: userId } });
+      return recordSyncRun(userId, full ? "RESYNC_TRACKS" : "PULL_TRACKS", false, () =>
+        full ? resyncFavoriteTracks(user) : syncFavoriteTracks(user),
+      );
+    });
+    return {
+      success: true,
+      data: result,
+    };
+  },
+);
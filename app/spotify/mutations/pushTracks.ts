@@ -1,12 +1,17 @@
 import { resolver } from "@blitzjs/rpc";
 import { syncPlaylists } from "../spotifyApi";
+import { withSyncLock } from "app/sync/syncLock";
+import { recordSyncRun } from "app/sync/syncRuns";
 import db from "db";
 
 export default resolver.pipe(resolver.authorize(), async (_, ctx) => {
   const userId = ctx.session.userId;
-  const user = await db.user.findFirstOrThrow({ where: { id: userId } });
-  await syncPlaylists(user);
+  const result = await withSyncLock(userId, async () => {
+    const user = await db.user.findFirstOrThrow({ where: { id: userId } });
+    return recordSyncRun(userId, "PUSH_PLAYLISTS", false, () => syncPlaylists(user));
+  });
   return {
     success: true,
+    data: result,
   };
 });
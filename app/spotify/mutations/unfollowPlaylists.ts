@@ -0,0 +1,40 @@
+import { resolver } from "@blitzjs/rpc";
+import { z } from "zod";
+import { unfollowPlaylist } from "../spotifyApi";
+import { nonEmptyString } from "app/lib/zodTypes";
+import db from "db";
+
+const UnfollowPlaylists = z.object({
+  // The Spotify ids of the playlists to remove
+  playlistIds: z.array(nonEmptyString).min(1),
+});
+
+/*
+ * Remove playlists from the user's Spotify library, skipping playlists that still belong to a
+ * label because they would be recreated on the next push.
+ */
+export default resolver.pipe(
+  resolver.zod(UnfollowPlaylists),
+  resolver.authorize(),
+  async ({ playlistIds }, ctx) => {
+    const userId = ctx.session.userId;
+    const user = await db.user.findFirstOrThrow({ where: { id: userId } });
+
+    const labelPlaylists = await db.playlist.findMany({
+      where: { userId, spotifyId: { in: playlistIds } },
+      select: { spotifyId: true },
+    });
+    const labelPlaylistIds = new Set(labelPlaylists.map(({ spotifyId }) => spotifyId));
+    const unfollowedIds = playlistIds.filter((playlistId) => !labelPlaylistIds.has(playlistId));
+    await Promise.all(unfollowedIds.map((playlistId) => unfollowPlaylist(user, playlistId)));
+    // The playlists don't need to be cleaned up anymore
+    await db.deletedPlaylist.deleteMany({
+      where: { userId, spotifyId: { in: unfollowedIds } },
+    });
+
+    return {
+      success: true,
+      data: { playlistsRemoved: unfollowedIds.length },
+    };
+  },
+);
@@ -0,0 +1,97 @@
+import {
+  diffPlaylistDetails,
+  getPlaylistDetails,
+  renderPlaylistTemplate,
+  unescapeDescription,
+} from "./playlistDetails";
+
+describe("renderPlaylistTemplate", () => {
+  const values = { label: "Rock", criteria: 'genre:"rock"', updated: "Oct 10, 2022" };
+
+  it("replaces placeholders", () => {
+    expect(renderPlaylistTemplate("{label} [generated]", values)).toBe("Rock [generated]");
+    expect(renderPlaylistTemplate("{label}: {criteria}, updated {updated}", values)).toBe(
+      'Rock: genre:"rock", updated Oct 10, 2022',
+    );
+  });
+
+  it("leaves unknown placeholders alone", () => {
+    expect(renderPlaylistTemplate("{label} {unknown} {}", values)).toBe("Rock {unknown} {}");
+  });
+});
+
+describe("getPlaylistDetails", () => {
+  const label = {
+    name: "Rock",
+    smartCriteria: null,
+    playlistName: "{label} [generated]",
+    playlistDescription: 'Tracks labeled "{label}" by playlist-gen',
+    playlistPublic: false,
+    playlistCollaborative: false,
+  };
+  const tracksUpdatedAt = new Date("2022-10-10T02:00:00Z");
+
+  it("renders the label's templates", () => {
+    expect(getPlaylistDetails(label, tracksUpdatedAt, "UTC")).toEqual({
+      name: "Rock [generated]",
+      description: 'Tracks labeled "Rock" by playlist-gen',
+      public: false,
+      collaborative: false,
+    });
+  });
+
+  it("formats the updated date in the user's time zone", () => {
+    const details = getPlaylistDetails(
+      { ...label, playlistDescription: "Updated {updated}" },
+      tracksUpdatedAt,
+      "America/New_York",
+    );
+    expect(details.description).toBe("Updated Oct 9, 2022");
+  });
+
+  it("normalizes smart criteria", () => {
+    const details = getPlaylistDetails(
+      { ...label, smartCriteria: "explicit&&tempo<110", playlistDescription: "{criteria}" },
+      tracksUpdatedAt,
+      "UTC",
+    );
+    expect(details.description).toBe("explicit && tempo<110");
+  });
+
+  it("falls back to the label's name when the name is empty", () => {
+    expect(getPlaylistDetails({ ...label, playlistName: " " }, tracksUpdatedAt, "UTC").name).toBe(
+      "Rock",
+    );
+  });
+
+  it("makes collaborative playlists private", () => {
+    expect(
+      getPlaylistDetails(
+        { ...label, playlistPublic: true, playlistCollaborative: true },
+        tracksUpdatedAt,
+        "UTC",
+      ),
+    ).toMatchObject({ public: false, collaborative: true });
+  });
+});
+
+describe("unescapeDescription", () => {
+  it("unescapes HTML entities", () => {
+    expect(unescapeDescription("&quot;Rock&quot; &amp; &#x27;roll&#x27; &lt;3 a&#x2F;b")).toBe(
+      "\"Rock\" & 'roll' <3 a/b",
+    );
+    expect(unescapeDescription("&amp;quot;")).toBe("&quot;");
+  });
+});
+
+describe("diffPlaylistDetails", () => {
+  const details = { name: "Rock", description: "", public: false, collaborative: false };
+
+  it("returns the details that changed", () => {
+    expect(diffPlaylistDetails(details, details)).toEqual({});
+    expect(diffPlaylistDetails(details, { ...details, name: "Pop", public: true })).toEqual({
+      name: "Pop",
+      public: true,
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { formatInTimeZone } from "date-fns-tz";
+import { pickBy, truncate } from "lodash";
+import { normalizeSmartCriteria } from "app/lib/smartLabel";
+import type { Label } from "db";
+
+// The longest description that Spotify accepts
+const maxDescriptionLength = 300;
+
+// The details of a Spotify playlist that its label configures
+export type PlaylistDetails = {
+  name: string;
+  description: string;
+  public: boolean;
+  collaborative: boolean;
+};
+
+// The values of the placeholders in playlist name and description templates
+// {label} is the label's name, {criteria} is its smart criteria or empty for dumb labels, and
+// {updated} is the date that the playlist's tracks last changed
+export type PlaylistTemplateValues = {
+  label: string;
+  criteria: string;
+  updated: string;
+};
+
+// Replace the placeholders like "{label}" in a playlist name or description template, leaving
+// unknown placeholders alone
+export function renderPlaylistTemplate(template: string, values: PlaylistTemplateValues): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name)
+      ? values[name as keyof PlaylistTemplateValues]
+      : placeholder,
+  );
+}
+
+// Calculate the details that a label's playlist should have
+// `tracksUpdatedAt` is when the playlist's tracks last changed, which is formatted in the user's
+// time zone
+export function getPlaylistDetails(
+  label: Pick<
+    Label,
+    | "name"
+    | "smartCriteria"
+    | "playlistName"
+    | "playlistDescription"
+    | "playlistPublic"
+    | "playlistCollaborative"
+  >,
+  tracksUpdatedAt: Date,
+  timeZone: string,
+): PlaylistDetails {
+  const values = {
+    label: label.name,
+    criteria: label.smartCriteria === null ? "" : normalizeSmartCriteria(label.smartCriteria),
+    updated: formatInTimeZone(tracksUpdatedAt, timeZone, "MMM d, yyyy"),
+  };
+  return {
+    // Spotify rejects empty names
+    name: renderPlaylistTemplate(label.playlistName, values).trim() || label.name,
+    description: truncate(renderPlaylistTemplate(label.playlistDescription, values).trim(), {
+      length: maxDescriptionLength,
+    }),
+    // Spotify doesn't allow collaborative playlists to be public
+    public: label.playlistPublic && !label.playlistCollaborative,
+    collaborative: label.playlistCollaborative,
+  };
+}
+
+// Spotify HTML-escapes the descriptions of playlists that it sends, so unescape them before
+// comparing them to the descriptions that were sent
+export function unescapeDescription(description: string): string {
+  return description
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;|&#39;/g, "'")
+    .replace(/&#x2F;/g, "/")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+// Calculate the details that need to be sent to Spotify to change a playlist's current details
+// into the desired details
+// Return an empty object if the playlist doesn't need to change
+export function diffPlaylistDetails(
+  current: PlaylistDetails,
+  desired: PlaylistDetails,
+): Partial<PlaylistDetails> {
+  return pickBy(desired, (value, key) => current[key as keyof PlaylistDetails] !== value);
+}
@@ -0,0 +1,112 @@
+import { range, shuffle } from "lodash";
+import { PlaylistChange, diffPlaylist } from "./playlistDiff";
+
+// Apply changes to a playlist's tracks the way that Spotify does
+function applyChanges(tracks: string[], changes: PlaylistChange[]): string[] {
+  let result = [...tracks];
+  changes.forEach((change) => {
+    switch (change.type) {
+      case "replace":
+        result = [...change.uris];
+        break;
+      case "add":
+        result.splice(change.position ?? result.length, 0, ...change.uris);
+        break;
+      case "remove":
+        result = result.filter((uri) => !change.uris.includes(uri));
+        break;
+      case "move": {
+        const moved = result.splice(change.rangeStart, change.rangeLength);
+        const insertBefore =
+          change.insertBefore > change.rangeStart
+            ? change.insertBefore - change.rangeLength
+            : change.insertBefore;
+        result.splice(insertBefore, 0, ...moved);
+        break;
+      }
+    }
+  });
+  return result;
+}
+
+// Generate track URIs
+function uris(indices: number[]): string[] {
+  return indices.map((index) => `spotify:track:${index}`);
+}
+
+describe("diffPlaylist", () => {
+  it("doesn't change playlists that are already up to date", () => {
+    expect(diffPlaylist([], [])).toEqual([]);
+    expect(diffPlaylist(uris([1, 2, 3]), uris([1, 2, 3]))).toEqual([]);
+  });
+
+  it("inserts new tracks where they belong", () => {
+    expect(diffPlaylist(uris([3, 4, 5]), uris([1, 2, 3, 4, 5]))).toEqual([
+      { type: "add", uris: uris([1, 2]), position: 0 },
+    ]);
+    expect(diffPlaylist(uris([1, 2, 5]), uris([1, 2, 3, 4, 5]))).toEqual([
+      { type: "add", uris: uris([3, 4]), position: 2 },
+    ]);
+  });
+
+  it("removes tracks that don't belong", () => {
+    expect(diffPlaylist(uris([1, 2, 3, 4, 5]), uris([1, 3, 5]))).toEqual([
+      { type: "remove", uris: uris([2, 4]) },
+    ]);
+  });
+
+  it("moves tracks that are out of order", () => {
+    expect(diffPlaylist(uris(range(10)), uris([5, 6, 0, 1, 2, 3, 4, 7, 8, 9]))).toEqual([
+      { type: "move", rangeStart: 5, rangeLength: 2, insertBefore: 0 },
+    ]);
+  });
+
+  it("re-adds tracks that are in the playlist more than once", () => {
+    const current = uris([1, 2, 1, ...range(3, 200)]);
+    const desired = uris([1, 2, ...range(3, 200)]);
+    expect(diffPlaylist(current, desired)).toEqual([
+      { type: "remove", uris: uris([1]) },
+      { type: "add", uris: uris([1]), position: 0 },
+    ]);
+  });
+
+  it("replaces playlists when that takes fewer requests", () => {
+    expect(diffPlaylist(uris(range(150)), [])).toEqual([{ type: "replace", uris: [] }]);
+    expect(diffPlaylist(uris(range(10)), uris(range(9, -1, -1)))).toEqual([
+      { type: "replace", uris: uris(range(9, -1, -1)) },
+    ]);
+    expect(diffPlaylist(uris(range(1000, 1050)), uris(range(250)))).toEqual([
+      { type: "replace", uris: uris(range(100)) },
+      { type: "add", uris: uris(range(100, 200)), position: null },
+      { type: "add", uris: uris(range(200, 250)), position: null },
+    ]);
+  });
+
+  it("replaces playlists with unavailable tracks", () => {
+    expect(diffPlaylist([...uris([1, 2]), null, ...uris([3, 4])], uris([2, 1, 3, 4]))).toEqual([
+      { type: "replace", uris: uris([2, 1, 3, 4]) },
+    ]);
+  });
+
+  it("sends at most 100 tracks per change", () => {
+    const changes = diffPlaylist(uris(range(0, 500, 2)), uris(range(500)));
+    changes.forEach((change) => {
+      if (change.type !== "move") {
+        expect(change.uris.length).toBeLessThanOrEqual(100);
+      }
+    });
+  });
+
+  it("produces the desired tracks", () => {
+    for (let iteration = 0; iteration < 200; ++iteration) {
+      const current = uris(shuffle(range(30)).slice(0, iteration % 30));
+      const desired = uris(shuffle(range(10, 40)).slice(0, (iteration * 7) % 30));
+      // Sometimes keep most of the order the same
+      if (iteration % 2 === 0) {
+        desired.sort();
+        current.sort();
+      }
+      expect(applyChanges(current, diffPlaylist(current, desired))).toEqual(desired);
+    }
+  });
+});
@@ -0,0 +1,111 @@
+import { chunk, countBy, uniq } from "lodash";
+
+// The most tracks that Spotify allows to be added or removed in a single request
+const maxBatchSize = 100;
+
+// A change to a Spotify playlist's tracks that can be sent in a single request
+export type PlaylistChange =
+  // Replace all of the tracks in the playlist
+  | { type: "replace"; uris: string[] }
+  // Insert tracks before a position, or at the end if the position is null
+  | { type: "add"; uris: string[]; position: number | null }
+  // Remove every occurrence of tracks
+  | { type: "remove"; uris: string[] }
+  // Move a range of tracks to before another position
+  | { type: "move"; rangeStart: number; rangeLength: number; insertBefore: number };
+
+// Calculate the changes that replace all of the tracks in a playlist
+function replacePlaylist(desired: string[]): PlaylistChange[] {
+  const [first = [], ...rest] = chunk(desired, maxBatchSize);
+  return [
+    { type: "replace", uris: first },
+    ...rest.map((uris): PlaylistChange => ({ type: "add", uris, position: null })),
+  ];
+}
+
+// Calculate the changes that remove, add, and move individual tracks to turn the current tracks
+// into the desired tracks, leaving tracks that are already in the right place alone
+function patchPlaylist(current: string[], desired: string[]): PlaylistChange[] {
+  const changes: PlaylistChange[] = [];
+
+  // Remove tracks that shouldn't be in the playlist, along with tracks that are in it more than
+  // once because removing a track removes all of its occurrences
+  const desiredUris = new Set(desired);
+  const counts = countBy(current);
+  const removedUris = new Set(
+    current.filter((uri) => !desiredUris.has(uri) || (counts[uri] ?? 0) > 1),
+  );
+  chunk([...removedUris], maxBatchSize).forEach((uris) => changes.push({ type: "remove", uris }));
+  const working = current.filter((uri) => !removedUris.has(uri));
+
+  // Fill in each position of the playlist in order
+  const workingUris = new Set(working);
+  let position = 0;
+  while (position < desired.length) {
+    if (working[position] === desired[position]) {
+      ++position;
+      continue;
+    }
+
+    const missingUris: string[] = [];
+    for (
+      let index = position;
+      index < desired.length && missingUris.length < maxBatchSize;
+      ++index
+    ) {
+      const uri = desired[index] as string;
+      if (workingUris.has(uri)) {
+        break;
+      }
+      missingUris.push(uri);
+    }
+    if (missingUris.length > 0) {
+      // Insert the run of missing tracks
+      changes.push({ type: "add", uris: missingUris, position });
+      working.splice(position, 0, ...missingUris);
+      missingUris.forEach((uri) => workingUris.add(uri));
+      position += missingUris.length;
+      continue;
+    }
+
+    // Move the run of tracks that are in the playlist but later than they should be
+    const rangeStart = working.indexOf(desired[position] as string);
+    let rangeLength = 1;
+    while (
+      position + rangeLength < desired.length &&
+      working[rangeStart + rangeLength] === desired[position + rangeLength]
+    ) {
+      ++rangeLength;
+    }
+    changes.push({ type: "move", rangeStart, rangeLength, insertBefore: position });
+    working.splice(position, 0, ...working.splice(rangeStart, rangeLength));
+    position += rangeLength;
+  }
+
+  return changes;
+}
+
+// Calculate the changes that turn a playlist's current tracks into the desired tracks
+// Individual changes are preferred so that tracks that stay in the playlist keep their place, but
+// the playlist is replaced when that takes fewer requests, like when a shuffled playlist is
+// reshuffled
+// Unavailable tracks in the current tracks are null
+// Return an empty array if the playlist doesn't need to change
+export function diffPlaylist(current: (string | null)[], desired: string[]): PlaylistChange[] {
+  if (current.length === desired.length && current.every((uri, index) => uri === desired[index])) {
+    return [];
+  }
+
+  // Individual changes can't distinguish between multiple occurrences of the same track, and
+  // unavailable tracks can't be removed by their URIs
+  if (
+    uniq(desired).length !== desired.length ||
+    !current.every((uri): uri is string => uri !== null)
+  ) {
+    return replacePlaylist(desired);
+  }
+
+  const patch = patchPlaylist(current, desired);
+  const replacement = replacePlaylist(desired);
+  return patch.length <= replacement.length ? patch : replacement;
+}
@@ -0,0 +1,16 @@
+import { resolver } from "@blitzjs/rpc";
+import { findOrphanedPlaylists } from "../spotifyApi";
+import db from "db";
+
+/*
+ * Get the user's generated Spotify playlists whose labels were deleted.
+ */
+export default resolver.pipe(resolver.authorize(), async (_, ctx) => {
+  const user = await db.user.findFirstOrThrow({ where: { id: ctx.session.userId } });
+  const playlists = await findOrphanedPlaylists(user);
+
+  return {
+    success: true as const,
+    data: { playlists },
+  };
+});
@@ -0,0 +1,24 @@
+import { resolver } from "@blitzjs/rpc";
+import { listPlaylists } from "../spotifyApi";
+import db from "db";
+
+/*
+ * Get the user's Spotify playlists that can be imported as labels.
+ */
+export default resolver.pipe(resolver.authorize(), async (_, ctx) => {
+  const userId = ctx.session.userId;
+  const user = await db.user.findFirstOrThrow({ where: { id: userId } });
+
+  // Hide the playlists that were generated from labels
+  const generatedIds = new Set(
+    (await db.playlist.findMany({ where: { userId }, select: { spotifyId: true } })).map(
+      ({ spotifyId }) => spotifyId,
+    ),
+  );
+  const playlists = (await listPlaylists(user)).filter(({ id }) => !generatedIds.has(id));
+
+  return {
+    success: true as const,
+    data: { playlists },
+  };
+});
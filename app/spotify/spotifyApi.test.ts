@@ -0,0 +1,736 @@
+/**
+ * @jest-environment node
+ */
+
+// Polyfill fetch the same way that Next does on the server
+import "next/dist/server/node-polyfill-fetch";
+import { map } from "lodash";
+import { MissingScopeError, SpotifyApiError } from "./errors";
+import type { User } from "db";
+import { FakeSpotifyServer, FakeTrack, startFakeSpotifyServer } from "test/fakeSpotifyServer";
+
+// These tests sync with a fake Spotify server but need a real database, so they only run when
+// INTEGRATION is set, i.e. `INTEGRATION=1 npm test -- spotifyApi`
+const describeIntegration = process.env.INTEGRATION ? describe : describe.skip;
+
+describeIntegration("spotifyApi", () => {
+  // The database and Spotify API are loaded lazily so that they use the fake server's URL
+  let db: typeof import("db").default;
+  let api: typeof import("./spotifyApi");
+  let spotify: FakeSpotifyServer;
+
+  const prefix = `test-${Date.now()}`;
+  let numUsers = 0;
+  let user: User;
+
+  // Add a track to Spotify without saving it
+  function makeTrack(index: number): FakeTrack {
+    const artist = {
+      id: `${prefix}-artist-${index % 3}`,
+      name: `Artist ${index % 3}`,
+      genres: index % 3 === 0 ? ["rock", "indie rock"] : ["pop"],
+    };
+    const track: FakeTrack = {
+      id: `${prefix}-track-${index}`,
+      name: `Track ${index}`,
+      album: {
+        id: `${prefix}-album-${index % 5}`,
+        name: `Album ${index % 5}`,
+        release_date: `${2000 + (index % 5)}-01-01`,
+        images: [{ url: `https://example.com/${index % 5}.jpg` }],
+      },
+      artists: [{ id: artist.id }],
+      duration_ms: 180000 + index * 1000,
+      explicit: index % 2 === 1,
+      popularity: index % 100,
+    };
+    spotify.state.artists.set(artist.id, artist);
+    spotify.state.audioFeatures.set(track.id, {
+      id: track.id,
+      tempo: 100 + index,
+      energy: 0.5,
+      danceability: 0.25,
+      key: index % 12,
+    });
+    spotify.state.catalog.set(track.id, track);
+    return track;
+  }
+
+  // Add a track to the front of the fake user's saved tracks
+  function saveTrack(index: number): FakeTrack {
+    const track = makeTrack(index);
+    spotify.state.savedTracks.unshift({
+      added_at: new Date(Date.UTC(2022, 0, 1) + index * 60 * 60 * 1000).toISOString(),
+      track,
+    });
+    return track;
+  }
+
+  // Get the ids of the user's tracks, most recently added first
+  async function loadTrackIds(): Promise<string[]> {
+    const tracks = await db.track.findMany({
+      where: { userId: user.id },
+      orderBy: { dateAdded: "desc" },
+      select: { spotifyId: true },
+    });
+    return tracks.map(({ spotifyId }) => spotifyId);
+  }
+
+  // Identify one of the user's tracks by its Spotify id
+  function trackKey(spotifyId: string | undefined) {
+    return { userId_spotifyId: { userId: user.id, spotifyId: spotifyId ?? "" } };
+  }
+
+  // Count the requests to an endpoint that the fake server received
+  function countRequests(endpoint: string): number {
+    return spotify.requests.filter((request) => request === endpoint).length;
+  }
+
+  beforeAll(async () => {
+    spotify = await startFakeSpotifyServer();
+    process.env.SPOTIFY_ACCOUNTS_URL = spotify.url;
+    process.env.SPOTIFY_API_URL = spotify.url;
+    process.env.SPOTIFY_CLIENT_ID ??= "client-id";
+    process.env.SPOTIFY_CLIENT_SECRET ??= "client-secret";
+    process.env.DOMAIN ??= "http://localhost:3000";
+
+    ({ default: db } = await import("db"));
+    api = await import("./spotifyApi");
+  });
+
+  // Create a user and make them the fake server's user
+  async function createUser(): Promise<User> {
+    const newUser = await db.user.create({
+      data: {
+        spotifyId: `${prefix}-user-${++numUsers}`,
+        accessToken: spotify.state.accessToken,
+        accessTokenExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        refreshToken: "refresh-token",
+      },
+    });
+    spotify.state.userId = newUser.spotifyId;
+    return newUser;
+  }
+
+  beforeEach(async () => {
+    spotify.reset();
+    user = await createUser();
+  });
+
+  afterEach(async () => {
+    await db.user.deleteMany({ where: { spotifyId: { startsWith: prefix } } });
+  });
+
+  afterAll(async () => {
+    await db.album.deleteMany({ where: { id: { startsWith: prefix } } });
+    await db.artist.deleteMany({ where: { id: { startsWith: prefix } } });
+    await db.$disconnect();
+    await spotify.close();
+  });
+
+  describe("syncFavoriteTracks", () => {
+    it("imports all of the saved tracks", async () => {
+      for (let index = 0; index < 40; ++index) {
+        saveTrack(index);
+      }
+
+      await expect(api.syncFavoriteTracks(user)).resolves.toEqual({
+        tracksAdded: 40,
+        tracksRemoved: 0,
+        errors: [],
+      });
+
+      expect(await loadTrackIds()).toEqual(spotify.state.savedTracks.map(({ track }) => track.id));
+      const track = await db.track.findFirstOrThrow({
+        where: { userId: user.id, spotifyId: `${prefix}-track-3` },
+        include: { album: true, artists: true },
+      });
+      expect(track).toMatchObject({
+        name: "Track 3",
+        explicit: true,
+        durationMs: 183000,
+        popularity: 3,
+        tempo: 103,
+        energy: 0.5,
+        danceability: 0.25,
+        key: 3,
+        album: { name: "Album 3", thumbnailUrl: "https://example.com/3.jpg" },
+        artists: [{ name: "Artist 0", genres: ["rock", "indie rock"] }],
+      });
+    });
+
+    it("stops at the first track that was already synced", async () => {
+      for (let index = 0; index < 10; ++index) {
+        saveTrack(index);
+      }
+      await api.syncFavoriteTracks(user);
+      saveTrack(10);
+      saveTrack(11);
+      spotify.requests.length = 0;
+
+      await expect(api.syncFavoriteTracks(user)).resolves.toEqual({
+        tracksAdded: 2,
+        tracksRemoved: 0,
+        errors: [],
+      });
+
+      expect(countRequests("GET /v1/me/tracks")).toBe(1);
+      expect(await loadTrackIds()).toHaveLength(12);
+    });
+
+    it("refreshes rejected access tokens", async () => {
+      saveTrack(0);
+      user = await db.user.update({ where: { id: user.id }, data: { accessToken: "revoked" } });
+
+      await api.syncFavoriteTracks(user);
+
+      expect(countRequests("POST /api/token")).toBe(1);
+      expect(await loadTrackIds()).toHaveLength(1);
+      const { accessToken } = await db.user.findFirstOrThrow({ where: { id: user.id } });
+      expect(accessToken).toBe(spotify.state.accessToken);
+    });
+
+    it("retries rate limited requests", async () => {
+      saveTrack(0);
+      spotify.failNext("GET /v1/me/tracks", 429, { "Retry-After": "0" });
+
+      await api.syncFavoriteTracks(user);
+
+      expect(countRequests("GET /v1/me/tracks")).toBe(2);
+      expect(await loadTrackIds()).toHaveLength(1);
+    });
+
+    it("throws errors that can't be retried", async () => {
+      saveTrack(0);
+      spotify.failNext("GET /v1/me/tracks", 403);
+
+      const promise = api.syncFavoriteTracks(user);
+      await expect(promise).rejects.toBeInstanceOf(SpotifyApiError);
+      await expect(promise).rejects.toMatchObject({ status: 403, endpoint: "GET /v1/me/tracks" });
+    });
+
+    it("still imports tracks when audio features can't be loaded", async () => {
+      saveTrack(0);
+      spotify.failNext("GET /v1/audio-features", 403);
+
+      await expect(api.syncFavoriteTracks(user)).resolves.toEqual({
+        tracksAdded: 1,
+        tracksRemoved: 0,
+        errors: [
+          expect.objectContaining({
+            labelName: null,
+            endpoint: "GET /v1/audio-features",
+            status: 403,
+          }),
+        ],
+      });
+
+      await expect(
+        db.track.findFirstOrThrow({ where: { userId: user.id } }),
+      ).resolves.toMatchObject({ durationMs: 180000, tempo: null });
+
+      // Spotify won't allow the request later either, so it isn't sent again
+      await expect(api.syncFavoriteTracks(user)).resolves.toMatchObject({ errors: [] });
+      expect(countRequests("GET /v1/audio-features")).toBe(1);
+    });
+
+    it("still imports tracks when the details of old tracks can't be loaded", async () => {
+      saveTrack(0);
+      await api.syncFavoriteTracks(user);
+      // The first track was synced before durations were stored
+      await db.track.updateMany({ where: { userId: user.id }, data: { durationMs: null } });
+      saveTrack(1);
+      spotify.failNext("GET /v1/tracks", 403);
+
+      await expect(api.syncFavoriteTracks(user)).resolves.toEqual({
+        tracksAdded: 1,
+        tracksRemoved: 0,
+        errors: [
+          expect.objectContaining({ labelName: null, endpoint: "GET /v1/tracks", status: 403 }),
+        ],
+      });
+      expect(await loadTrackIds()).toHaveLength(2);
+    });
+
+    it("looks up audio features again after temporary errors", async () => {
+      saveTrack(0);
+      // Rate limited for longer than requests wait
+      spotify.failNext("GET /v1/audio-features", 429, { "Retry-After": "3600" });
+
+      await expect(api.syncFavoriteTracks(user)).resolves.toMatchObject({
+        errors: [expect.objectContaining({ status: 429 })],
+      });
+      await api.syncFavoriteTracks(user);
+
+      expect(countRequests("GET /v1/audio-features")).toBe(2);
+      await expect(
+        db.track.findFirstOrThrow({ where: { userId: user.id } }),
+      ).resolves.toMatchObject({ tempo: 100 });
+    });
+
+    it("only looks up audio features once for tracks that Spotify doesn't have them for", async () => {
+      const track = saveTrack(0);
+      spotify.state.audioFeatures.delete(track.id);
+
+      await api.syncFavoriteTracks(user);
+      await api.syncFavoriteTracks(user);
+
+      expect(countRequests("GET /v1/audio-features")).toBe(1);
+      await expect(
+        db.track.findFirstOrThrow({ where: { userId: user.id } }),
+      ).resolves.toMatchObject({ tempo: null, audioFeaturesCheckedAt: expect.any(Date) });
+    });
+
+    it("imports tracks that another user already has", async () => {
+      for (let index = 0; index < 10; ++index) {
+        saveTrack(index);
+      }
+      await api.syncFavoriteTracks(user);
+      const otherUser = await createUser();
+
+      await expect(api.syncFavoriteTracks(otherUser)).resolves.toEqual({
+        tracksAdded: 10,
+        tracksRemoved: 0,
+        errors: [],
+      });
+
+      await expect(db.track.count({ where: { userId: user.id } })).resolves.toBe(10);
+      await expect(db.track.count({ where: { userId: otherUser.id } })).resolves.toBe(10);
+      await expect(
+        db.track.findFirstOrThrow({
+          where: { userId: otherUser.id, spotifyId: `${prefix}-track-3` },
+        }),
+      ).resolves.toMatchObject({ durationMs: 183000, tempo: 103 });
+    });
+  });
+
+  describe("resyncFavoriteTracks", () => {
+    it("removes unsaved tracks and restores their labels when they are saved again", async () => {
+      for (let index = 0; index < 60; ++index) {
+        saveTrack(index);
+      }
+      await api.syncFavoriteTracks(user);
+      const label = await db.label.create({
+        data: {
+          userId: user.id,
+          name: "Label",
+          tracks: { connect: [trackKey(`${prefix}-track-5`)] },
+        },
+      });
+
+      // Unsave one labeled and one unlabeled track
+      const unsaved = spotify.state.savedTracks.filter(({ track }) =>
+        [`${prefix}-track-5`, `${prefix}-track-6`].includes(track.id),
+      );
+      spotify.state.savedTracks = spotify.state.savedTracks.filter(
+        (savedTrack) => !unsaved.includes(savedTrack),
+      );
+      saveTrack(60);
+
+      await expect(api.resyncFavoriteTracks(user)).resolves.toEqual({
+        tracksAdded: 1,
+        tracksRemoved: 2,
+        errors: [],
+      });
+      expect(await loadTrackIds()).toEqual(spotify.state.savedTracks.map(({ track }) => track.id));
+
+      // Save the tracks again
+      spotify.state.savedTracks.unshift(...unsaved);
+      await expect(api.syncFavoriteTracks(user)).resolves.toEqual({
+        tracksAdded: 2,
+        tracksRemoved: 0,
+        errors: [],
+      });
+      const restoredTrack = await db.track.findFirstOrThrow({
+        where: { userId: user.id, spotifyId: `${prefix}-track-5` },
+        include: { labels: true },
+      });
+      expect(restoredTrack.labels).toEqual([expect.objectContaining({ id: label.id })]);
+      await expect(db.removedTrack.count({ where: { userId: user.id } })).resolves.toBe(0);
+    });
+  });
+
+  describe("syncPlaylists", () => {
+    // Load the URIs of the tracks in the Spotify playlist of a label
+    async function loadPlaylistUris(labelId: number): Promise<string[] | undefined> {
+      const { spotifyId } = await db.playlist.findFirstOrThrow({ where: { labelId } });
+      return spotify.state.playlists.get(spotifyId)?.trackUris;
+    }
+
+    // Convert track ids to the URIs in Spotify playlists
+    function toUris(trackIds: string[]): string[] {
+      return trackIds.map((trackId) => `spotify:track:${trackId}`);
+    }
+
+    beforeEach(async () => {
+      for (let index = 0; index < 60; ++index) {
+        saveTrack(index);
+      }
+      await api.syncFavoriteTracks(user);
+    });
+
+    it("creates and fills a playlist for each label", async () => {
+      const trackIds = await loadTrackIds();
+      const dumbLabel = await db.label.create({
+        data: {
+          userId: user.id,
+          name: "Dumb",
+          tracks: { connect: trackIds.map(trackKey) },
+        },
+      });
+      const smartLabel = await db.label.create({
+        data: { userId: user.id, name: "Smart", smartCriteria: "clean && tempo<110" },
+      });
+
+      await expect(api.syncPlaylists(user)).resolves.toEqual({
+        playlistsCreated: 2,
+        playlistsUpdated: 2,
+        errors: [],
+      });
+
+      expect(spotify.state.playlists.size).toBe(2);
+      const dumbPlaylist = await db.playlist.findFirstOrThrow({ where: { labelId: dumbLabel.id } });
+      expect(spotify.state.playlists.get(dumbPlaylist.spotifyId)).toMatchObject({
+        name: "Dumb [generated]",
+        public: false,
+        // More than one batch of tracks
+        trackUris: toUris(trackIds),
+      });
+      await expect(loadPlaylistUris(smartLabel.id)).resolves.toEqual(
+        toUris([8, 6, 4, 2, 0].map((index) => `${prefix}-track-${index}`)),
+      );
+    });
+
+    it("empties playlists of labels without tracks", async () => {
+      const label = await db.label.create({
+        data: {
+          userId: user.id,
+          name: "Label",
+          tracks: { connect: [trackKey(`${prefix}-track-0`)] },
+        },
+      });
+      await api.syncPlaylists(user);
+      await db.label.update({ where: { id: label.id }, data: { tracks: { set: [] } } });
+
+      await api.syncPlaylists(user);
+
+      await expect(loadPlaylistUris(label.id)).resolves.toEqual([]);
+      expect(spotify.state.playlists.size).toBe(1);
+    });
+
+    it("only sends the tracks that changed", async () => {
+      const trackIds = await loadTrackIds();
+      const label = await db.label.create({
+        data: {
+          userId: user.id,
+          name: "Label",
+          tracks: { connect: trackIds.slice(2).map(trackKey) },
+        },
+      });
+      await api.syncPlaylists(user);
+      const { spotifyId: playlistId } = await db.playlist.findFirstOrThrow({
+        where: { labelId: label.id },
+      });
+      await db.label.update({
+        where: { id: label.id },
+        data: {
+          tracks: {
+            connect: trackIds.slice(0, 2).map(trackKey),
+            disconnect: [trackKey(trackIds[10])],
+          },
+        },
+      });
+      spotify.requests.length = 0;
+
+      await api.syncPlaylists(user);
+
+      expect(spotify.requests).toEqual([
+        `GET /v1/playlists/${playlistId}`,
+        `DELETE /v1/playlists/${playlistId}/tracks`,
+        `POST /v1/playlists/${playlistId}/tracks`,
+      ]);
+      await expect(loadPlaylistUris(label.id)).resolves.toEqual(
+        toUris(trackIds.filter((_, index) => index !== 10)),
+      );
+    });
+
+    it("skips playlists that haven't changed", async () => {
+      const label = await db.label.create({
+        data: { userId: user.id, name: "Label", smartCriteria: "explicit" },
+      });
+      await api.syncPlaylists(user);
+      const { spotifyId: playlistId } = await db.playlist.findFirstOrThrow({
+        where: { labelId: label.id },
+      });
+      spotify.requests.length = 0;
+
+      await api.syncPlaylists(user);
+
+      expect(spotify.requests).toEqual([`GET /v1/playlists/${playlistId}`]);
+    });
+
+    it("updates the details of playlists whose labels changed", async () => {
+      const label = await db.label.create({
+        data: { userId: user.id, name: "Label", smartCriteria: "explicit" },
+      });
+      await api.syncPlaylists(user);
+      const { spotifyId: playlistId } = await db.playlist.findFirstOrThrow({
+        where: { labelId: label.id },
+      });
+      expect(spotify.state.playlists.get(playlistId)).toMatchObject({
+        name: "Label [generated]",
+        description: 'Tracks labeled "Label" by playlist-gen',
+        public: false,
+        collaborative: false,
+      });
+      await db.label.update({
+        where: { id: label.id },
+        data: {
+          name: "Renamed",
+          playlistName: "{label}",
+          playlistDescription: "Matches {criteria} & more",
+          playlistCollaborative: true,
+        },
+      });
+      spotify.requests.length = 0;
+
+      await expect(api.syncPlaylists(user)).resolves.toMatchObject({ playlistsUpdated: 1 });
+
+      expect(spotify.requests).toEqual([
+        `GET /v1/playlists/${playlistId}`,
+        `PUT /v1/playlists/${playlistId}`,
+        `GET /v1/playlists/${playlistId}`,
+      ]);
+      expect(spotify.state.playlists.get(playlistId)).toMatchObject({
+        name: "Renamed",
+        description: "Matches explicit & more",
+        public: false,
+        collaborative: true,
+      });
+
+      // The escaped description that Spotify sends back matches the label's description, and the
+      // snapshot after the details changed is stored, so the tracks aren't reloaded
+      spotify.requests.length = 0;
+      await expect(api.syncPlaylists(user)).resolves.toMatchObject({ playlistsUpdated: 0 });
+      expect(spotify.requests).toEqual([`GET /v1/playlists/${playlistId}`]);
+    });
+
+    it("reloads playlists that were changed on Spotify", async () => {
+      const label = await db.label.create({
+        data: { userId: user.id, name: "Label", smartCriteria: "explicit" },
+      });
+      await api.syncPlaylists(user);
+      const expectedUris = await loadPlaylistUris(label.id);
+      const { spotifyId: playlistId } = await db.playlist.findFirstOrThrow({
+        where: { labelId: label.id },
+      });
+      const spotifyPlaylist = spotify.state.playlists.get(playlistId);
+      if (!spotifyPlaylist) {
+        throw new Error("Playlist wasn't created");
+      }
+      spotifyPlaylist.trackUris = [
+        "spotify:track:added-on-spotify",
+        ...spotifyPlaylist.trackUris.slice(5),
+      ];
+      spotifyPlaylist.snapshotId = "changed-on-spotify";
+
+      await api.syncPlaylists(user);
+
+      expect(spotify.requests).toContain(`GET /v1/playlists/${playlistId}/tracks`);
+      await expect(loadPlaylistUris(label.id)).resolves.toEqual(expectedUris);
+    });
+
+    it("replaces playlists with unavailable tracks on Spotify", async () => {
+      const label = await db.label.create({
+        data: { userId: user.id, name: "Label", smartCriteria: "explicit" },
+      });
+      await api.syncPlaylists(user);
+      const expectedUris = await loadPlaylistUris(label.id);
+      const { spotifyId: playlistId } = await db.playlist.findFirstOrThrow({
+        where: { labelId: label.id },
+      });
+      const spotifyPlaylist = spotify.state.playlists.get(playlistId);
+      if (!spotifyPlaylist) {
+        throw new Error("Playlist wasn't created");
+      }
+      // An unavailable track in the middle of the playlist, followed by tracks out of order
+      const [first = "", second = "", ...rest] = spotifyPlaylist.trackUris;
+      spotify.state.unavailableTracks.add("unavailable");
+      spotifyPlaylist.trackUris = [first, "spotify:track:unavailable", ...rest, second];
+      spotifyPlaylist.snapshotId = "changed-on-spotify";
+
+      await api.syncPlaylists(user);
+
+      expect(spotify.requests).toContain(`PUT /v1/playlists/${playlistId}/tracks`);
+      await expect(loadPlaylistUris(label.id)).resolves.toEqual(expectedUris);
+    });
+
+    it("reports playlists that fail without stopping the others", async () => {
+      const failing = await db.label.create({
+        data: { userId: user.id, name: "Failing", smartCriteria: "explicit" },
+      });
+      const working = await db.label.create({
+        data: { userId: user.id, name: "Working", smartCriteria: "clean" },
+      });
+      await api.syncPlaylists(user);
+      await db.label.update({ where: { id: working.id }, data: { smartCriteria: "explicit" } });
+      const { spotifyId: failingId } = await db.playlist.findFirstOrThrow({
+        where: { labelId: failing.id },
+      });
+      spotify.state.playlists.delete(failingId);
+
+      await expect(api.syncPlaylists(user)).resolves.toEqual({
+        playlistsCreated: 0,
+        playlistsUpdated: 1,
+        errors: [
+          {
+            labelName: "Failing",
+            message: expect.stringContaining("404") as string,
+            endpoint: `GET /v1/playlists/${failingId}`,
+            status: 404,
+          },
+        ],
+      });
+      const explicitIds = (await loadTrackIds()).filter(
+        (trackId) => Number(trackId.split("-").pop()) % 2 === 1,
+      );
+      await expect(loadPlaylistUris(working.id)).resolves.toEqual(toUris(explicitIds));
+    });
+  });
+
+  describe("importPlaylists", () => {
+    // Add a playlist that another user owns to Spotify
+    function makePlaylist(name: string, trackIds: string[]): string {
+      const id = `${prefix}-playlist-${name}`;
+      spotify.state.playlists.set(id, {
+        id,
+        ownerId: "other-user",
+        name,
+        description: "",
+        public: true,
+        collaborative: false,
+        trackUris: trackIds.map((trackId) => `spotify:track:${trackId}`),
+        snapshotId: "snapshot",
+      });
+      return id;
+    }
+
+    it("lists the playlists that the user owns or follows", async () => {
+      makePlaylist("Followed", [saveTrack(0).id]);
+
+      await expect(api.listPlaylists(user)).resolves.toEqual([
+        {
+          id: `${prefix}-playlist-Followed`,
+          name: "Followed",
+          thumbnailUrl: null,
+          owned: false,
+          trackCount: 1,
+        },
+      ]);
+    });
+
+    it("creates a label for each playlist and saves their tracks", async () => {
+      const savedIds = [saveTrack(0).id, saveTrack(1).id];
+      await api.syncFavoriteTracks(user);
+      const unsavedIds = [makeTrack(2).id, makeTrack(3).id];
+      const first = makePlaylist("First", [savedIds[0] as string, unsavedIds[0] as string]);
+      const second = makePlaylist("Second", [...unsavedIds, "local-track"]);
+
+      await expect(api.importPlaylists(user, [first, second])).resolves.toEqual({
+        labelsCreated: 2,
+        tracksAdded: 2,
+      });
+
+      expect(spotify.state.savedTracks.map(({ track }) => track.id).sort()).toEqual(
+        [...savedIds, ...unsavedIds].sort(),
+      );
+      const labels = await db.label.findMany({
+        where: { userId: user.id },
+        orderBy: { name: "asc" },
+        include: { tracks: { select: { spotifyId: true } } },
+      });
+      expect(
+        labels.map(({ name, tracks }) => ({
+          name,
+          trackIds: map(tracks, "spotifyId").sort(),
+        })),
+      ).toEqual([
+        { name: "First", trackIds: [savedIds[0], unsavedIds[0]].sort() },
+        { name: "Second", trackIds: [...unsavedIds].sort() },
+      ]);
+      await expect(
+        db.track.findFirstOrThrow({ where: { userId: user.id, spotifyId: unsavedIds[1] } }),
+      ).resolves.toMatchObject({ name: "Track 3", tempo: 103 });
+    });
+
+    it("creates one label for each distinct playlist", async () => {
+      const playlistId = makePlaylist("Playlist", [saveTrack(0).id]);
+
+      await expect(api.importPlaylists(user, [playlistId, playlistId])).resolves.toEqual({
+        labelsCreated: 1,
+        tracksAdded: 1,
+      });
+      await expect(db.label.count({ where: { userId: user.id } })).resolves.toBe(1);
+    });
+
+    it("asks for permission to save tracks without creating labels", async () => {
+      const first = makePlaylist("First", [saveTrack(0).id]);
+      const second = makePlaylist("Second", [makeTrack(1).id]);
+      spotify.failNext("PUT /v1/me/tracks", 403);
+
+      const promise = api.importPlaylists(user, [first, second]);
+      await expect(promise).rejects.toBeInstanceOf(MissingScopeError);
+      await expect(promise).rejects.toMatchObject({ scope: "user-library-modify" });
+      await expect(db.label.count({ where: { userId: user.id } })).resolves.toBe(0);
+    });
+  });
+
+  describe("cleaning up playlists", () => {
+    it("finds the playlists of deleted labels", async () => {
+      await db.label.create({ data: { userId: user.id, name: "Kept" } });
+      const deletedLabel = await db.label.create({ data: { userId: user.id, name: "Deleted" } });
+      await api.syncPlaylists(user);
+      const { spotifyId: orphanId } = await db.playlist.findFirstOrThrow({
+        where: { labelId: deletedLabel.id },
+      });
+      await db.label.delete({ where: { id: deletedLabel.id } });
+      await db.deletedPlaylist.createMany({
+        data: [
+          { userId: user.id, spotifyId: orphanId },
+          { userId: user.id, spotifyId: "unfollowed" },
+        ],
+      });
+      // Playlists that weren't generated for a label aren't orphans, even if they are named like
+      // they were
+      spotify.state.playlists.set("handmade", {
+        id: "handmade",
+        ownerId: user.spotifyId,
+        name: "Handmade [generated]",
+        description: "",
+        public: true,
+        collaborative: false,
+        trackUris: [],
+        snapshotId: "snapshot",
+      });
+
+      await expect(api.findOrphanedPlaylists(user)).resolves.toMatchObject([
+        { id: orphanId, name: "Deleted [generated]" },
+      ]);
+      // Playlists that the user already removed are forgotten
+      const deletedPlaylists = await db.deletedPlaylist.findMany({ where: { userId: user.id } });
+      expect(map(deletedPlaylists, "spotifyId")).toEqual([orphanId]);
+    });
+
+    it("unfollows playlists and ignores playlists that are already gone", async () => {
+      await db.label.create({ data: { userId: user.id, name: "Label" } });
+      await api.syncPlaylists(user);
+      const [playlistId = ""] = spotify.state.playlists.keys();
+
+      await api.unfollowPlaylist(user, playlistId);
+      await api.unfollowPlaylist(user, playlistId);
+
+      expect(spotify.state.playlists.has(playlistId)).toBe(false);
+      expect(spotify.requests.filter((request) => request.endsWith("/followers"))).toHaveLength(2);
+    });
+  });
+});
@@ -1,83 +1,51 @@
 // Expose higher-level methods for interacting with the Spotify API
 
-import { chunk, difference, differenceBy, map, pick, uniq, uniqBy } from "lodash";
+import { chunk, compact, difference, isEmpty, map, pick, uniq, uniqBy } from "lodash";
 import log from "loglevel";
 import { z } from "zod";
-import { env } from "../lib/env";
-import { generatePrismaFilter } from "../lib/smartLabel";
-import db, { Artist, Prisma, User } from "db";
+import { invalidateLabelCounts } from "../labels/labelCounts";
+import { loadSmartLabelCriteria } from "../labels/smartLabelCriteria";
+import { parseSmartCriteria } from "../lib/smartLabel";
+import { findOrderedTracks } from "../tracks/orderedTracks";
+import { MissingScopeError, SpotifyApiError } from "./errors";
+import { diffPlaylistDetails, getPlaylistDetails, unescapeDescription } from "./playlistDetails";
+import { PlaylistChange, diffPlaylist } from "./playlistDiff";
+import { spotifyClient } from "./spotifyClient";
+import { createSpotifyFetch } from "./spotifyFetch";
+import db, { Artist, Label, Playlist, Prisma, Track, User } from "db";
 
-// POST https://accounts.spotify.com/api/token
-// Only includes fields that we care about
-const TokenResponse = z.object({
-  access_token: z.string(),
-  expires_in: z.number(),
+// Make requests to the Spotify API, saving refreshed access tokens to the database
+const spotifyFetch = createSpotifyFetch({
+  client: spotifyClient,
+  async saveAccessToken(userId, fields) {
+    await db.user.update({ where: { id: userId }, data: fields });
+  },
 });
 
-// Get the user a new Spotify access token, updating the provided user object
-async function refreshAccessToken(user: User): Promise<void> {
-  // Exchange the refresh token for an access token
-  const body = new URLSearchParams();
-  body.append("grant_type", "refresh_token");
-  body.append("refresh_token", user.refreshToken);
-  const authorization = `${env.SPOTIFY_CLIENT_ID}:${env.SPOTIFY_CLIENT_SECRET}`;
-  const tokenRes = await fetch("https://accounts.spotify.com/api/token", {
-    method: "POST",
-    body,
-    headers: {
-      Accept: "application/json",
-      Authorization: `Basic ${Buffer.from(authorization).toString("base64")}`,
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-  });
-  const { access_token: accessToken, expires_in: expiresIn } = TokenResponse.parse(
-    await tokenRes.json(),
-  );
-
-  // Save the new access token
-  const modifiedFields = {
-    accessToken,
-    // expiresIn is the length of the token's validity in seconds
-    // Calculate the absolute time when it will expire, considering it expired a minute
-    // sooner to avoid accidentally using an expired access token
-    accessTokenExpiresAt: new Date(Date.now() + (expiresIn - 60) * 1000),
-  };
-  await db.user.update({
-    where: { id: user.id },
-    data: modifiedFields,
-  });
-  Object.assign(user, modifiedFields);
-}
-
-// Make a request to the Spotify API
-// This function takes care of adding the Spotify access token to the request
-// and retrying failures due to an expired access token
-// Return the response body JSON
-async function spotifyFetch(user: User, req: Request): Promise<unknown> {
-  if (new Date() > user.accessTokenExpiresAt) {
-    // The access token is expired, so preemptively refresh it
-    log.info("Expired access token, retrying...");
-    await refreshAccessToken(user);
-  }
-
-  // Add the authorization headers to the provided request
-  const authorizedReq = new Request(req.url, req);
-  authorizedReq.headers.set("Authorization", `Bearer ${user.accessToken}`);
-  authorizedReq.headers.set("Accept", "application/json");
-
-  log.info(`${req.method} ${req.url}`);
-  const res = await fetch(authorizedReq);
-  log.info(`Status: ${res.status}`);
-
-  const body: unknown = await res.json();
-  if (!res.ok) {
-    log.error("Spotify API error:");
-    log.error(body);
-    throw res;
-  }
-
-  return body;
-}
+// A track object in Spotify API responses
+// Only includes fields that we care about
+const SpotifyTrack = z.object({
+  album: z.object({
+    id: z.string(),
+    images: z.array(
+      z.object({
+        url: z.string(),
+      }),
+    ),
+    name: z.string(),
+    release_date: z.string(),
+  }),
+  artists: z.array(
+    z.object({
+      id: z.string(),
+    }),
+  ),
+  duration_ms: z.number(),
+  explicit: z.boolean(),
+  id: z.string(),
+  name: z.string(),
+  popularity: z.number(),
+});
 
 // GET https://api.spotify.com/v1/me/tracks
 // Only includes fields that we care about
@@ -85,26 +53,19 @@ const TracksResponse = z.object({
   items: z.array(
     z.object({
       added_at: z.string(),
-      track: z.object({
-        album: z.object({
-          id: z.string(),
-          images: z.array(
-            z.object({
-              url: z.string(),
-            }),
-          ),
-          name: z.string(),
-          release_date: z.string(),
-        }),
-        artists: z.array(
-          z.object({
-            id: z.string(),
-          }),
-        ),
-        explicit: z.boolean(),
-        id: z.string(),
-        name: z.string(),
-      }),
+      track: SpotifyTrack,
+    }),
+  ),
+});
+
+// GET https://api.spotify.com/v1/tracks
+// Only includes fields that we care about
+const TrackDetailsResponse = z.object({
+  tracks: z.array(
+    z.object({
+      id: z.string(),
+      duration_ms: z.number(),
+      popularity: z.number(),
     }),
   ),
 });
@@ -130,12 +91,7 @@ async function lookupArtists(user: User, artistIds: string[]): Promise<SpotifyAr
   // Load the artists' information 50 at a time
   for (const chunkIds of chunk(artistIds, 50)) {
     const { artists } = ArtistsResponse.parse(
-      await spotifyFetch(
-        user,
-        new Request(
-          `https://api.spotify.com/v1/artists?ids=${encodeURIComponent(chunkIds.join(","))}`,
-        ),
-      ),
+      await spotifyFetch(user, `/v1/artists?ids=${encodeURIComponent(chunkIds.join(","))}`),
     );
     artistGenres.push(...artists);
   }
@@ -143,85 +99,291 @@ async function lookupArtists(user: User, artistIds: string[]): Promise<SpotifyAr
   return artistGenres;
 }
 
-// Pull the user's favorite tracks from Spotify into the database
-export async function syncFavoriteTracks(user: User): Promise<void> {
-  // At first, only load five tracks because the user is unlikely to have new favorites since the last time and we don't
-  // want to transfer lots of new tracks unnecessarily
-  let offset = 0;
-  let limit = 5;
+type SpotifyTrackDetails = Pick<Track, "spotifyId" | "durationMs" | "popularity">;
 
-  /* eslint-disable no-await-in-loop */
-  // eslint-disable-next-line no-constant-condition
-  while (true) {
-    // Get the user's most recent favorite tracks from Spotify
-    const tracks = TracksResponse.parse(
-      await spotifyFetch(
-        user,
-        new Request(`https://api.spotify.com/v1/me/tracks?offset=${offset}&limit=${limit}`),
-      ),
+// Load the duration and popularity of tracks from Spotify
+async function lookupTrackDetails(user: User, trackIds: string[]): Promise<SpotifyTrackDetails[]> {
+  const trackDetails: SpotifyTrackDetails[] = [];
+
+  // Load the tracks' details 50 at a time
+  for (const chunkIds of chunk(trackIds, 50)) {
+    const { tracks } = TrackDetailsResponse.parse(
+      await spotifyFetch(user, `/v1/tracks?ids=${encodeURIComponent(chunkIds.join(","))}`),
     );
+    trackDetails.push(
+      ...tracks.map((track) => ({
+        spotifyId: track.id,
+        durationMs: track.duration_ms,
+        popularity: track.popularity,
+      })),
+    );
+  }
 
-    // Create the albums that the tracks reference
-    const albumsPromise = db.album.createMany({
-      data: uniqBy(
-        tracks.items.map(({ track: { album } }) => ({
-          id: album.id,
-          name: album.name,
-          thumbnailUrl:
-            album.images[0]?.url ??
-            `https://via.placeholder.com/640.jpg?text=${encodeURIComponent(album.name)}`,
-          dateReleased: new Date(album.release_date),
-        })),
-        "id",
-      ),
-      skipDuplicates: true,
-    });
+  return trackDetails;
+}
 
-    // Create the artists that the tracks reference
-    const trackArtistIds = uniq(tracks.items.flatMap((item) => map(item.track.artists, "id")));
-    const existingArtistIds = map(
-      await db.artist.findMany({
-        where: { id: { in: trackArtistIds } },
-        select: { id: true },
-      }),
-      "id",
+// GET https://api.spotify.com/v1/audio-features
+// Only includes fields that we care about
+// Tracks that Spotify doesn't have audio features for are null
+const AudioFeaturesResponse = z.object({
+  audio_features: z.array(
+    z
+      .object({
+        id: z.string(),
+        tempo: z.number(),
+        energy: z.number(),
+        danceability: z.number(),
+        key: z.number(),
+      })
+      .nullable(),
+  ),
+});
+
+type SpotifyAudioFeatures = Pick<Track, "spotifyId" | "tempo" | "energy" | "danceability" | "key">;
+
+// Load the audio features of tracks from Spotify
+async function lookupAudioFeatures(
+  user: User,
+  trackIds: string[],
+): Promise<SpotifyAudioFeatures[]> {
+  const audioFeatures: SpotifyAudioFeatures[] = [];
+
+  // Load the tracks' audio features 100 at a time
+  for (const chunkIds of chunk(trackIds, 100)) {
+    const { audio_features: chunkFeatures } = AudioFeaturesResponse.parse(
+      await spotifyFetch(user, `/v1/audio-features?ids=${encodeURIComponent(chunkIds.join(","))}`),
     );
-    const newArtistIds = difference(trackArtistIds, existingArtistIds);
-    const newArtists = await lookupArtists(user, newArtistIds);
-    const artistsPromise = db.artist.createMany({
-      data: newArtists,
+    chunkFeatures.forEach((features) => {
+      if (features) {
+        audioFeatures.push({
+          spotifyId: features.id,
+          tempo: features.tempo,
+          energy: features.energy,
+          danceability: features.danceability,
+          // Spotify uses -1 when it couldn't detect the key
+          key: features.key === -1 ? null : features.key,
+        });
+      }
     });
+  }
 
-    // Create albums and artists in parallel
-    await Promise.all([albumsPromise, artistsPromise]);
-
-    // Create the tracks themselves
-    const newTracks: Prisma.TrackCreateInput[] = tracks.items.map((item) => ({
-      user: { connect: { id: user.id } },
-      spotifyId: item.track.id,
-      name: item.track.name,
-      album: { connect: { id: item.track.album.id } },
-      artists: {
-        connect: item.track.artists.map((artist) => pick(artist, ["id"])),
-      },
-      dateAdded: item.added_at,
-      explicit: item.track.explicit,
-    }));
-
-    // See if any of the tracks are already in the database
-    const existingTracks = await db.track.findMany({
-      select: { spotifyId: true },
-      where: {
-        userId: user.id,
-        spotifyId: { in: map(newTracks, "spotifyId") },
-      },
+  return audioFeatures;
+}
+
+type SavedTrack = z.infer<typeof TracksResponse>["items"][number];
+
+// Load a page of the user's favorite tracks from Spotify, most recently saved first
+async function fetchSavedTracks(user: User, offset: number, limit: number): Promise<SavedTrack[]> {
+  const { items } = TracksResponse.parse(
+    await spotifyFetch(user, `/v1/me/tracks?offset=${offset}&limit=${limit}`),
+  );
+  return items;
+}
+
+// Add the favorite tracks that aren't in the database yet, along with their albums and artists
+// Tracks that were previously removed get their labels back
+// Return the number of tracks that were added
+async function createTracks(user: User, items: SavedTrack[]): Promise<number> {
+  // Create the albums that the tracks reference
+  const albumsPromise = db.album.createMany({
+    data: uniqBy(
+      items.map(({ track: { album } }) => ({
+        id: album.id,
+        name: album.name,
+        thumbnailUrl:
+          album.images[0]?.url ??
+          `https://via.placeholder.com/640.jpg?text=${encodeURIComponent(album.name)}`,
+        dateReleased: new Date(album.release_date),
+      })),
+      "id",
+    ),
+    skipDuplicates: true,
+  });
+
+  // Create the artists that the tracks reference
+  const trackArtistIds = uniq(items.flatMap((item) => map(item.track.artists, "id")));
+  const existingArtistIds = map(
+    await db.artist.findMany({
+      where: { id: { in: trackArtistIds } },
+      select: { id: true },
+    }),
+    "id",
+  );
+  const newArtistIds = difference(trackArtistIds, existingArtistIds);
+  const newArtists = await lookupArtists(user, newArtistIds);
+  const artistsPromise = db.artist.createMany({
+    data: newArtists.map((artist) => ({
+      ...artist,
+      searchableGenres: artist.genres.join("\n"),
+    })),
+  });
+
+  // Create albums and artists in parallel
+  await Promise.all([albumsPromise, artistsPromise]);
+
+  // See if any of the tracks are already in the database
+  const existingTracks = await db.track.findMany({
+    select: { spotifyId: true },
+    where: {
+      userId: user.id,
+      spotifyId: { in: items.map((item) => item.track.id) },
+    },
+  });
+  const existingIds = new Set(map(existingTracks, "spotifyId"));
+  const missingItems = items.filter((item) => !existingIds.has(item.track.id));
+  if (missingItems.length === 0) {
+    return 0;
+  }
+
+  // Find the labels of the missing tracks that were previously removed
+  const missingIds = missingItems.map((item) => item.track.id);
+  const removedTracks = await db.removedTrack.findMany({
+    where: { userId: user.id, spotifyId: { in: missingIds } },
+    select: { spotifyId: true, labels: { select: { id: true } } },
+  });
+  const removedLabels = new Map(removedTracks.map(({ spotifyId, labels }) => [spotifyId, labels]));
+
+  // Add the missing tracks to the database
+  const newTracks: Prisma.TrackCreateInput[] = missingItems.map((item) => ({
+    user: { connect: { id: user.id } },
+    spotifyId: item.track.id,
+    name: item.track.name,
+    album: { connect: { id: item.track.album.id } },
+    artists: {
+      connect: item.track.artists.map((artist) => pick(artist, ["id"])),
+    },
+    labels: { connect: removedLabels.get(item.track.id) ?? [] },
+    dateAdded: item.added_at,
+    explicit: item.track.explicit,
+    durationMs: item.track.duration_ms,
+    popularity: item.track.popularity,
+  }));
+  await Promise.all(newTracks.map((track) => db.track.create({ data: track })));
+  if (removedTracks.length > 0) {
+    await db.removedTrack.deleteMany({
+      where: { userId: user.id, spotifyId: { in: map(removedTracks, "spotifyId") } },
     });
+  }
+
+  return newTracks.length;
+}
+
+// An error that didn't stop a sync
+export type SyncError = {
+  // The label whose playlist failed to push, null if the error wasn't specific to a label
+  labelName: string | null;
+  message: string;
+  // The Spotify request that failed and its status code, null if the error didn't come from
+  // Spotify
+  endpoint: string | null;
+  status: number | null;
+};
+
+// Describe an error that didn't stop a sync
+function toSyncError(err: unknown, labelName: string | null = null): SyncError {
+  return {
+    labelName,
+    message: err instanceof Error ? err.message : String(err),
+    endpoint: err instanceof SpotifyApiError ? err.endpoint : null,
+    status: err instanceof SpotifyApiError ? err.status : null,
+  };
+}
+
+// Fill in the audio features, duration, and popularity of tracks that don't have them yet
+// Spotify refuses audio features requests from some apps, so failing to load audio features or
+// other details doesn't stop the sync and is returned as an error instead of thrown
+// Return whether any tracks were updated and the errors that didn't stop the rest from updating
+async function fillTrackDetails(
+  user: User,
+): Promise<{ detailsFilled: boolean; errors: SyncError[] }> {
+  const errors: SyncError[] = [];
+
+  // Fill in the audio features of new tracks and tracks synced before audio features were stored
+  // Tracks are marked as checked so that tracks that Spotify doesn't have audio features for aren't
+  // looked up again on every sync
+  const uncheckedTracks = await db.track.findMany({
+    where: { userId: user.id, audioFeaturesCheckedAt: null },
+    select: { spotifyId: true },
+  });
+  let checkedIds = map(uncheckedTracks, "spotifyId");
+  let audioFeatures: SpotifyAudioFeatures[] = [];
+  try {
+    audioFeatures = await lookupAudioFeatures(user, checkedIds);
+  } catch (err) {
+    log.error("Loading audio features failed:");
+    log.error(err);
+    errors.push(toSyncError(err));
+    // Spotify forbids apps without access to audio features from loading them, which won't change
+    // by trying again, so those tracks are still marked as checked
+    // Other errors might be temporary, so those tracks are looked up again on the next sync
+    if (!(err instanceof SpotifyApiError && err.status === 403)) {
+      checkedIds = [];
+    }
+  }
+  const checkedAt = new Date();
+  await db.$transaction([
+    ...audioFeatures.map(({ spotifyId, ...features }) =>
+      db.track.update({
+        where: { userId_spotifyId: { userId: user.id, spotifyId } },
+        data: features,
+      }),
+    ),
+    db.track.updateMany({
+      where: { userId: user.id, spotifyId: { in: checkedIds } },
+      data: { audioFeaturesCheckedAt: checkedAt },
+    }),
+  ]);
+
+  // Fill in the duration and popularity of tracks synced before they were stored
+  const detaillessTracks = await db.track.findMany({
+    where: { userId: user.id, durationMs: null },
+    select: { spotifyId: true },
+  });
+  let trackDetails: SpotifyTrackDetails[] = [];
+  try {
+    trackDetails = await lookupTrackDetails(user, map(detaillessTracks, "spotifyId"));
+  } catch (err) {
+    log.error("Loading track details failed:");
+    log.error(err);
+    errors.push(toSyncError(err));
+  }
+  await db.$transaction(
+    trackDetails.map(({ spotifyId, ...details }) =>
+      db.track.update({
+        where: { userId_spotifyId: { userId: user.id, spotifyId } },
+        data: details,
+      }),
+    ),
+  );
+
+  return { detailsFilled: audioFeatures.length > 0 || trackDetails.length > 0, errors };
+}
+
+// The changes that syncing made to the user's tracks
+export type SyncTracksResult = {
+  tracksAdded: number;
+  tracksRemoved: number;
+  errors: SyncError[];
+};
 
-    // Add the missing tracks to the database
-    const missingTracks = differenceBy(newTracks, existingTracks, "spotifyId");
-    await Promise.all(missingTracks.map((track) => db.track.create({ data: track })));
+// Pull the user's new favorite tracks from Spotify into the database
+// Tracks that the user removed from their favorites are only detected by a full resync
+export async function syncFavoriteTracks(user: User): Promise<SyncTracksResult> {
+  // At first, only load five tracks because the user is unlikely to have new favorites since the last time and we don't
+  // want to transfer lots of new tracks unnecessarily
+  let offset = 0;
+  let limit = 5;
+  let tracksAdded = 0;
 
-    if (missingTracks.length === limit) {
+  /* eslint-disable no-await-in-loop */
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    // Get the user's most recent favorite tracks from Spotify
+    const items = await fetchSavedTracks(user, offset, limit);
+    const numCreated = await createTracks(user, items);
+    tracksAdded += numCreated;
+
+    if (numCreated === limit) {
       // All of the tracks were missing, so load another, larger batch
       offset += limit;
       limit = 25;
@@ -232,44 +394,307 @@ export async function syncFavoriteTracks(user: User): Promise<void> {
     }
   }
   /* eslint-enable no-await-in-loop */
+
+  const { detailsFilled, errors } = await fillTrackDetails(user);
+  if (tracksAdded > 0 || detailsFilled) {
+    await invalidateLabelCounts(user.id);
+  }
+
+  return { tracksAdded, tracksRemoved: 0, errors };
+}
+
+// Reconcile the database with all of the user's favorite tracks on Spotify, adding missing tracks
+// and removing tracks that the user no longer has saved
+// The labels of removed tracks are remembered and restored if the user saves the track again
+export async function resyncFavoriteTracks(user: User): Promise<SyncTracksResult> {
+  // Walk the entire list of favorite tracks, using the largest page size that Spotify allows
+  const limit = 50;
+  const savedIds = new Set<string>();
+  let tracksAdded = 0;
+
+  /* eslint-disable no-await-in-loop */
+  for (let offset = 0; ; offset += limit) {
+    const items = await fetchSavedTracks(user, offset, limit);
+    items.forEach((item) => savedIds.add(item.track.id));
+    tracksAdded += await createTracks(user, items);
+    if (items.length < limit) {
+      break;
+    }
+  }
+  /* eslint-enable no-await-in-loop */
+
+  // Remove the tracks that aren't saved anymore, remembering the labels of the ones that had any
+  // Smart labels are never linked to tracks, so only dumb labels are remembered
+  const unsavedTracks = (
+    await db.track.findMany({
+      where: { userId: user.id },
+      select: { id: true, spotifyId: true, labels: { select: { id: true } } },
+    })
+  ).filter(({ spotifyId }) => !savedIds.has(spotifyId));
+  const labeledTracks = unsavedTracks.filter(({ labels }) => labels.length > 0);
+  await db.$transaction([
+    db.removedTrack.deleteMany({
+      where: { userId: user.id, spotifyId: { in: map(labeledTracks, "spotifyId") } },
+    }),
+    ...labeledTracks.map(({ spotifyId, labels }) =>
+      db.removedTrack.create({
+        data: { userId: user.id, spotifyId, labels: { connect: labels } },
+      }),
+    ),
+    db.track.deleteMany({ where: { id: { in: map(unsavedTracks, "id") } } }),
+  ]);
+
+  const { detailsFilled, errors } = await fillTrackDetails(user);
+  if (tracksAdded > 0 || unsavedTracks.length > 0 || detailsFilled) {
+    await invalidateLabelCounts(user.id);
+  }
+
+  return { tracksAdded, tracksRemoved: unsavedTracks.length, errors };
 }
 
 // POST https://api.spotify.com/v1/me/playlists
 // Only includes fields that we care about
 const CreatePlaylistResponse = z.object({
   id: z.string(),
+  snapshot_id: z.string(),
 });
 
+// POST, PUT, and DELETE https://api.spotify.com/v1/playlists/{playlist_id}/tracks
+// Only includes fields that we care about
+const PlaylistSnapshotResponse = z.object({
+  snapshot_id: z.string(),
+});
+
+// GET https://api.spotify.com/v1/playlists/{playlist_id}
+// Only includes fields that we care about
+const PlaylistDetailsResponse = z.object({
+  snapshot_id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  public: z.boolean().nullable(),
+  collaborative: z.boolean(),
+});
+
+// GET https://api.spotify.com/v1/playlists/{playlist_id}/tracks
+// Only includes fields that we care about
+// Tracks that are unavailable are null
+const PlaylistTracksResponse = z.object({
+  items: z.array(
+    z.object({
+      track: z
+        .object({
+          uri: z.string(),
+        })
+        .nullable(),
+    }),
+  ),
+  next: z.string().nullable(),
+});
+
+// Load the URIs of all of the tracks in a Spotify playlist
+// Unavailable tracks are null so that the URIs' indices match the tracks' positions in the playlist
+async function loadPlaylistUris(user: User, playlistId: string): Promise<(string | null)[]> {
+  const uris: (string | null)[] = [];
+  const limit = 100;
+
+  /* eslint-disable no-await-in-loop */
+  for (let offset = 0; ; offset += limit) {
+    const { items, next } = PlaylistTracksResponse.parse(
+      await spotifyFetch(
+        user,
+        `/v1/playlists/${playlistId}/tracks?fields=${encodeURIComponent(
+          "items(track(uri)),next",
+        )}&offset=${offset}&limit=${limit}`,
+      ),
+    );
+    uris.push(...items.map(({ track }) => track?.uri ?? null));
+    if (next === null) {
+      break;
+    }
+  }
+  /* eslint-enable no-await-in-loop */
+
+  return uris;
+}
+
+// Get the method and body of the request that sends a change to a Spotify playlist's tracks, and
+// whether the request is idempotent if that isn't implied by its method
+function getChangeRequest(change: PlaylistChange): {
+  method: string;
+  body: unknown;
+  idempotent?: boolean;
+} {
+  switch (change.type) {
+    case "replace":
+      return { method: "PUT", body: { uris: change.uris } };
+    case "add":
+      return {
+        method: "POST",
+        body: { uris: change.uris, position: change.position ?? undefined },
+      };
+    case "remove":
+      return { method: "DELETE", body: { tracks: change.uris.map((uri) => ({ uri })) } };
+    case "move":
+      return {
+        method: "PUT",
+        body: {
+          range_start: change.rangeStart,
+          range_length: change.rangeLength,
+          insert_before: change.insertBefore,
+        },
+        // Moving the tracks again after the first attempt was applied would move different tracks
+        idempotent: false,
+      };
+  }
+}
+
+// Send a change to a Spotify playlist's tracks
+// Return the playlist's new snapshot id
+async function sendPlaylistChange(
+  user: User,
+  playlistId: string,
+  change: PlaylistChange,
+): Promise<string> {
+  const { method, body, idempotent } = getChangeRequest(change);
+  const { snapshot_id: snapshotId } = PlaylistSnapshotResponse.parse(
+    await spotifyFetch(user, `/v1/playlists/${playlistId}/tracks`, {
+      method,
+      idempotent,
+      body: JSON.stringify(body),
+      headers: {
+        "Content-Type": "application/json",
+      },
+    }),
+  );
+  return snapshotId;
+}
+
+// Update a Spotify playlist to contain exactly the provided tracks and have the details that its
+// label configures, only sending the tracks and details that changed
+// Return true if the playlist changed
+async function pushPlaylist(
+  user: User,
+  playlist: Playlist & { label: Label },
+  uris: string[],
+): Promise<boolean> {
+  const current = PlaylistDetailsResponse.parse(
+    await spotifyFetch(
+      user,
+      `/v1/playlists/${playlist.spotifyId}?fields=${encodeURIComponent(
+        "snapshot_id,name,description,public,collaborative",
+      )}`,
+    ),
+  );
+
+  // The tracks that were last pushed are still in the playlist if nothing changed it since then
+  const currentUris =
+    current.snapshot_id === playlist.snapshotId
+      ? playlist.trackUris
+      : await loadPlaylistUris(user, playlist.spotifyId);
+
+  // Changes depend on the previous changes, so they have to be sent in order
+  const changes = diffPlaylist(currentUris, uris);
+  let snapshotId = current.snapshot_id;
+  for (const change of changes) {
+    // eslint-disable-next-line no-await-in-loop
+    snapshotId = await sendPlaylistChange(user, playlist.spotifyId, change);
+  }
+  const tracksUpdatedAt = changes.length > 0 ? new Date() : playlist.tracksUpdatedAt;
+
+  const detailChanges = diffPlaylistDetails(
+    {
+      name: current.name,
+      description: unescapeDescription(current.description ?? ""),
+      public: current.public ?? false,
+      collaborative: current.collaborative,
+    },
+    getPlaylistDetails(playlist.label, tracksUpdatedAt, user.timeZone),
+  );
+  const detailsChanged = !isEmpty(detailChanges);
+  if (detailsChanged) {
+    await spotifyFetch(user, `/v1/playlists/${playlist.spotifyId}`, {
+      method: "PUT",
+      body: JSON.stringify(detailChanges),
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+
+    // Changing the details creates a new snapshot, but the response doesn't include it, so load it
+    // so that the next push can reuse the stored tracks
+    ({ snapshot_id: snapshotId } = PlaylistSnapshotResponse.parse(
+      await spotifyFetch(user, `/v1/playlists/${playlist.spotifyId}?fields=snapshot_id`),
+    ));
+  }
+
+  if (changes.length > 0 || snapshotId !== playlist.snapshotId) {
+    await db.playlist.update({
+      where: { id: playlist.id },
+      data: { snapshotId, trackUris: uris, tracksUpdatedAt },
+    });
+  }
+  return changes.length > 0 || detailsChanged;
+}
+
+// An error that stopped a label's playlist from being pushed
+export type PlaylistError = SyncError & { labelName: string };
+
+// The changes that pushing playlists made
+export type SyncPlaylistsResult = {
+  playlistsCreated: number;
+  playlistsUpdated: number;
+  errors: PlaylistError[];
+};
+
+// Describe the error that stopped a label's playlist from being pushed
+function toPlaylistError(labelName: string, err: unknown): PlaylistError {
+  log.error(`Pushing the playlist for label "${labelName}" failed:`);
+  log.error(err);
+  return { ...toSyncError(err), labelName };
+}
+
+// Create a new Spotify playlist for a label
+// Return the playlist to save to the database
+async function createLabelPlaylist(
+  user: User,
+  label: Label,
+): Promise<Prisma.PlaylistCreateManyInput> {
+  const tracksUpdatedAt = new Date();
+  const { id: spotifyId, snapshot_id: snapshotId } = CreatePlaylistResponse.parse(
+    await spotifyFetch(user, `/v1/users/${user.spotifyId}/playlists`, {
+      method: "POST",
+      body: JSON.stringify(getPlaylistDetails(label, tracksUpdatedAt, user.timeZone)),
+      headers: {
+        "Content-Type": "application/json",
+      },
+    }),
+  );
+  return { userId: user.id, spotifyId, labelId: label.id, snapshotId, tracksUpdatedAt };
+}
+
 // Push the tracks from the database into Spotify playlists
-export async function syncPlaylists(user: User): Promise<void> {
+// A playlist that fails to push doesn't stop the others from being pushed, so its error is
+// returned instead of thrown
+export async function syncPlaylists(user: User): Promise<SyncPlaylistsResult> {
+  const errors: PlaylistError[] = [];
+
   // Find all labels that don't have a playlist yet
   const newLabels = await db.label.findMany({
     where: { userId: user.id, playlist: null },
   });
 
   // Create the new Spotify playlists in parallel
-  const playlists = await Promise.all(
-    newLabels.map(async (label) => {
-      // Create a new Spotify playlist for the label
-      const newPlaylist = {
-        name: `${label.name} [generated]`,
-        description: `Tracks labeled "${label.name}" by playlist-gen`,
-        public: false,
-      };
-      const { id: spotifyId } = CreatePlaylistResponse.parse(
-        await spotifyFetch(
-          user,
-          new Request(`https://api.spotify.com/v1/users/${user.spotifyId}/playlists`, {
-            method: "POST",
-            body: JSON.stringify(newPlaylist),
-            headers: {
-              "Content-Type": "application/json",
-            },
-          }),
-        ),
-      );
-      return { userId: user.id, spotifyId, labelId: label.id };
-    }),
+  const playlists = compact(
+    await Promise.all(
+      newLabels.map(async (label) => {
+        try {
+          return await createLabelPlaylist(user, label);
+        } catch (err) {
+          errors.push(toPlaylistError(label.name, err));
+          return null;
+        }
+      }),
+    ),
   );
 
   // Save the playlists to the database
@@ -292,70 +717,316 @@ export async function syncPlaylists(user: User): Promise<void> {
     },
   });
 
-  // Push the playlists to Spotify in parallel
-  await Promise.all(
-    dbPlaylists.map(async (playlist): Promise<void> => {
-      const dummyTrackSpotifyId = "41MCdlvXOl62B7Kv86Bb1v";
+  // Smart labels can reference other smart labels
+  const smartLabels = await loadSmartLabelCriteria(user.id);
 
-      let { tracks } = playlist.label;
+  // Push the playlists to Spotify in parallel
+  const updated = await Promise.all(
+    dbPlaylists.map(async (playlist): Promise<boolean> => {
+      try {
+        let { tracks } = playlist.label;
 
-      // Override the tracks for smart labels
-      const { smartCriteria } = playlist.label;
-      if (smartCriteria !== null) {
-        tracks = [];
-        try {
-          tracks = await db.track.findMany({
-            where: { userId: user.id, ...generatePrismaFilter(smartCriteria) },
-          });
-        } catch (err) {
-          log.error(err);
+        // Override the tracks for smart labels
+        const { smartCriteria } = playlist.label;
+        if (smartCriteria !== null) {
+          const result = parseSmartCriteria(smartCriteria, smartLabels, user.timeZone);
+          if (!result.success) {
+            throw new Error(`Invalid smart criteria "${smartCriteria}"`);
+          }
+          ({ tracks } = await findOrderedTracks(
+            { userId: user.id, ...result.filter },
+            result,
+            {},
+            (findArgs) => db.track.findMany({ ...findArgs, select: { id: true, spotifyId: true } }),
+          ));
         }
-      }
 
-      // Replace the tracks in the Spotify playlist with the new tracks
-      // If the playlist needs to be cleared without any new tracks put into it, it is more
-      // efficient to replace the entire playlist with a single song and then remove it than
-      // to query the playlist for all of it's ids, possibly in multiple batches, and then
-      // remove all of those ids, possibly in multiple batches
-      const trackSpotifyIds = map(tracks, "spotifyId");
-      for (const [index, spotifyIds] of chunk(
-        trackSpotifyIds.length > 0 ? trackSpotifyIds : [dummyTrackSpotifyId],
-        // Send 50 tracks at a time
-        50,
-      ).entries()) {
-        const uris = spotifyIds.map((spotifyId) => `spotify:track:${spotifyId}`);
-        // eslint-disable-next-line no-await-in-loop
-        await spotifyFetch(
+        return await pushPlaylist(
           user,
-          new Request(
-            `https://api.spotify.com/v1/playlists/${
-              playlist.spotifyId
-            }/tracks?uris=${encodeURIComponent(uris.join(","))}`,
-            {
-              // During the first chunk, send PUT request to replace all previous tracks with the new chunk of tracks
-              // For subsequent chunks, send POST request to append the new chunk of tracks to the existing tracks
-              // to avoid overwriting the chunks that were just uploaded
-              method: index === 0 ? "PUT" : "POST",
-            },
-          ),
+          playlist,
+          tracks.map(({ spotifyId }) => `spotify:track:${spotifyId}`),
         );
+      } catch (err) {
+        errors.push(toPlaylistError(playlist.label.name, err));
+        return false;
       }
+    }),
+  );
 
-      // If the playlist needs to be emptied, remove the dummy track that we added to it
-      if (playlist.label.tracks.length === 0) {
-        await spotifyFetch(
-          user,
-          new Request(`https://api.spotify.com/v1/playlists/${playlist.spotifyId}/tracks`, {
-            method: "DELETE",
-            body: JSON.stringify({
-              tracks: [{ uri: `spotify:track:${dummyTrackSpotifyId}` }],
-            }),
-            headers: {
-              "Content-Type": "application/json",
-            },
-          }),
-        );
-      }
+  return {
+    playlistsCreated: playlists.length,
+    playlistsUpdated: updated.filter(Boolean).length,
+    errors,
+  };
+}
+
+// GET https://api.spotify.com/v1/me/playlists
+// Only includes fields that we care about
+const PlaylistsResponse = z.object({
+  items: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      images: z.array(
+        z.object({
+          url: z.string(),
+        }),
+      ),
+      owner: z.object({
+        id: z.string(),
+      }),
+      tracks: z.object({
+        total: z.number(),
+      }),
+    }),
+  ),
+  next: z.string().nullable(),
+});
+
+export type SpotifyPlaylist = {
+  id: string;
+  name: string;
+  thumbnailUrl: string | null;
+  // Whether the user owns the playlist instead of just following it
+  owned: boolean;
+  trackCount: number;
+};
+
+// Load all of the playlists that the user owns or follows on Spotify
+export async function listPlaylists(user: User): Promise<SpotifyPlaylist[]> {
+  const playlists: SpotifyPlaylist[] = [];
+  const limit = 50;
+
+  /* eslint-disable no-await-in-loop */
+  for (let offset = 0; ; offset += limit) {
+    const { items, next } = PlaylistsResponse.parse(
+      await spotifyFetch(user, `/v1/me/playlists?offset=${offset}&limit=${limit}`),
+    );
+    playlists.push(
+      ...items.map((playlist) => ({
+        id: playlist.id,
+        name: playlist.name,
+        thumbnailUrl: playlist.images[0]?.url ?? null,
+        owned: playlist.owner.id === user.spotifyId,
+        trackCount: playlist.tracks.total,
+      })),
+    );
+    if (next === null) {
+      break;
+    }
+  }
+  /* eslint-enable no-await-in-loop */
+
+  return playlists;
+}
+
+// GET https://api.spotify.com/v1/playlists/{playlist_id}
+// Only includes fields that we care about
+const PlaylistNameResponse = z.object({
+  name: z.string(),
+});
+
+// GET https://api.spotify.com/v1/playlists/{playlist_id}/tracks
+// Only includes fields that we care about
+// Tracks are validated individually because local tracks and podcast episodes don't have the
+// fields of Spotify tracks
+const PlaylistItemsResponse = z.object({
+  items: z.array(
+    z.object({
+      added_at: z.string(),
+      track: z.unknown(),
     }),
+  ),
+  next: z.string().nullable(),
+});
+
+// Load the Spotify tracks in a playlist, ignoring local tracks and podcast episodes
+async function loadPlaylistTracks(
+  user: User,
+  playlistId: string,
+): Promise<z.infer<typeof SpotifyTrack>[]> {
+  const tracks: z.infer<typeof SpotifyTrack>[] = [];
+  const limit = 100;
+
+  /* eslint-disable no-await-in-loop */
+  for (let offset = 0; ; offset += limit) {
+    const { items, next } = PlaylistItemsResponse.parse(
+      await spotifyFetch(
+        user,
+        `/v1/playlists/${playlistId}/tracks?offset=${offset}&limit=${limit}`,
+      ),
+    );
+    items.forEach((item) => {
+      const result = SpotifyTrack.safeParse(item.track);
+      if (result.success) {
+        tracks.push(result.data);
+      }
+    });
+    if (next === null) {
+      break;
+    }
+  }
+  /* eslint-enable no-await-in-loop */
+
+  return tracks;
+}
+
+// GET https://api.spotify.com/v1/me/tracks/contains
+const ContainsTracksResponse = z.array(z.boolean());
+
+// Save tracks to the user's Spotify library and add them to the database, so that the database
+// keeps matching the user's favorite tracks
+// Tracks that are already in the database are left alone
+// Return the number of tracks that were added to the database
+async function saveTracks(user: User, tracks: z.infer<typeof SpotifyTrack>[]): Promise<number> {
+  const existingIds = new Set(
+    map(
+      await db.track.findMany({
+        where: { userId: user.id, spotifyId: { in: map(tracks, "id") } },
+        select: { spotifyId: true },
+      }),
+      "spotifyId",
+    ),
+  );
+  const missingTracks = uniqBy(
+    tracks.filter((track) => !existingIds.has(track.id)),
+    "id",
   );
+
+  // Only save the tracks that aren't already saved on Spotify but missing from the database
+  /* eslint-disable no-await-in-loop */
+  for (const chunkTracks of chunk(missingTracks, 50)) {
+    const ids = map(chunkTracks, "id");
+    const saved = ContainsTracksResponse.parse(
+      await spotifyFetch(user, `/v1/me/tracks/contains?ids=${encodeURIComponent(ids.join(","))}`),
+    );
+    const unsavedIds = ids.filter((_, index) => !saved[index]);
+    if (unsavedIds.length > 0) {
+      try {
+        await spotifyFetch(user, "/v1/me/tracks", {
+          method: "PUT",
+          body: JSON.stringify({ ids: unsavedIds }),
+          headers: {
+            "Content-Type": "application/json",
+          },
+        });
+      } catch (err) {
+        // Spotify forbids saving tracks if the user logged in before the app requested permission
+        if (err instanceof SpotifyApiError && err.status === 403) {
+          throw new MissingScopeError("user-library-modify");
+        }
+        throw err;
+      }
+    }
+  }
+  /* eslint-enable no-await-in-loop */
+
+  // Tracks that were already saved were saved at an unknown time, so consider all of the tracks
+  // to be added now
+  const addedAt = new Date().toISOString();
+  return createTracks(
+    user,
+    missingTracks.map((track) => ({ added_at: addedAt, track })),
+  );
+}
+
+// The changes that importing playlists made
+export type ImportPlaylistsResult = {
+  labelsCreated: number;
+  tracksAdded: number;
+};
+
+// Create a dumb label for each of the Spotify playlists and attach it to the playlist's tracks,
+// saving the tracks that aren't favorites yet
+// Throws a MissingScopeError if the user hasn't allowed the app to save tracks
+export async function importPlaylists(
+  user: User,
+  playlistIds: string[],
+): Promise<ImportPlaylistsResult> {
+  // Load all of the playlists before changing anything so that a playlist that fails to load
+  // doesn't leave the import half done
+  const playlists: { name: string; tracks: z.infer<typeof SpotifyTrack>[] }[] = [];
+  /* eslint-disable no-await-in-loop */
+  for (const playlistId of uniq(playlistIds)) {
+    const { name } = PlaylistNameResponse.parse(
+      await spotifyFetch(user, `/v1/playlists/${playlistId}?fields=name`),
+    );
+    playlists.push({ name, tracks: await loadPlaylistTracks(user, playlistId) });
+  }
+  /* eslint-enable no-await-in-loop */
+
+  // The saved tracks are favorites on Spotify now, so they stay in the database even if creating
+  // the labels fails
+  const tracksAdded = await saveTracks(
+    user,
+    playlists.flatMap(({ tracks }) => tracks),
+  );
+
+  // Create all of the labels or none of them
+  const labels = await db.$transaction(
+    playlists.map(({ name, tracks }) =>
+      db.label.create({
+        data: {
+          userId: user.id,
+          name,
+          tracks: {
+            connect: uniq(map(tracks, "id")).map((spotifyId) => ({
+              userId_spotifyId: { userId: user.id, spotifyId },
+            })),
+          },
+        },
+      }),
+    ),
+  );
+
+  // Missing audio features don't stop the import, and they are filled in by the next pull
+  if (tracksAdded > 0) {
+    await fillTrackDetails(user);
+  }
+  await invalidateLabelCounts(user.id);
+
+  return { labelsCreated: labels.length, tracksAdded };
+}
+
+// Remove a playlist from the user's Spotify library
+// Spotify doesn't let playlists be deleted, but unfollowing a playlist that the user owns hides it
+// from them
+// A playlist that no longer exists is ignored
+export async function unfollowPlaylist(user: User, playlistId: string): Promise<void> {
+  try {
+    await spotifyFetch(user, `/v1/playlists/${playlistId}/followers`, { method: "DELETE" });
+  } catch (err) {
+    if (err instanceof SpotifyApiError && err.status === 404) {
+      return;
+    }
+    throw err;
+  }
+}
+
+// Find the playlists of deleted labels that are still in the user's library
+// Playlists that the user already removed themselves are forgotten
+export async function findOrphanedPlaylists(user: User): Promise<SpotifyPlaylist[]> {
+  const deletedPlaylistIds = new Set(
+    map(
+      await db.deletedPlaylist.findMany({
+        where: { userId: user.id },
+        select: { spotifyId: true },
+      }),
+      "spotifyId",
+    ),
+  );
+  const playlists = await listPlaylists(user);
+  const orphanedPlaylists = playlists.filter(
+    (playlist) => playlist.owned && deletedPlaylistIds.has(playlist.id),
+  );
+
+  const orphanedIds = new Set(map(orphanedPlaylists, "id"));
+  const removedIds = [...deletedPlaylistIds].filter((playlistId) => !orphanedIds.has(playlistId));
+  if (removedIds.length > 0) {
+    await db.deletedPlaylist.deleteMany({
+      where: { userId: user.id, spotifyId: { in: removedIds } },
+    });
+  }
+
+  return orphanedPlaylists;
 }
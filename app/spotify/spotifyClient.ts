@@ -0,0 +1,67 @@
+import { env } from "../lib/env";
+
+// Send requests to Spotify's services
+// The rest of the app builds on this interface instead of hard-coding Spotify's URLs so that it
+// can talk to a fake Spotify server in tests
+export interface SpotifyClient {
+  // Build the URL that users visit to authorize the app to access their Spotify account
+  getAuthorizeUrl(params: URLSearchParams): string;
+
+  // Request an access token from the accounts service, authenticating as the app
+  // `params` contains the grant type and the authorization code or refresh token
+  requestToken(params: URLSearchParams): Promise<Response>;
+
+  // Send a request to the Web API, authorized by a user's access token
+  // `path` is relative to the API's base URL and can include a query string, like
+  // "/v1/me/tracks?limit=5"
+  requestApi(accessToken: string, path: string, init?: RequestInit): Promise<Response>;
+}
+
+type SpotifyClientOptions = {
+  accountsUrl: string;
+  apiUrl: string;
+  clientId: string;
+  clientSecret: string;
+};
+
+// Create a client that sends requests to Spotify's services at the provided base URLs
+export function createSpotifyClient({
+  accountsUrl,
+  apiUrl,
+  clientId,
+  clientSecret,
+}: SpotifyClientOptions): SpotifyClient {
+  return {
+    getAuthorizeUrl(params) {
+      return `${accountsUrl}/authorize?${params.toString()}`;
+    },
+
+    requestToken(params) {
+      const authorization = `${clientId}:${clientSecret}`;
+      return fetch(`${accountsUrl}/api/token`, {
+        method: "POST",
+        body: params,
+        headers: {
+          Accept: "application/json",
+          Authorization: `Basic ${Buffer.from(authorization).toString("base64")}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+      });
+    },
+
+    requestApi(accessToken, path, init = {}) {
+      const headers = new Headers(init.headers);
+      headers.set("Authorization", `Bearer ${accessToken}`);
+      headers.set("Accept", "application/json");
+      return fetch(`${apiUrl}${path}`, { ...init, headers });
+    },
+  };
+}
+
+// The client for the Spotify services configured in the environment
+export const spotifyClient = createSpotifyClient({
+  accountsUrl: env.SPOTIFY_ACCOUNTS_URL,
+  apiUrl: env.SPOTIFY_API_URL,
+  clientId: env.SPOTIFY_CLIENT_ID,
+  clientSecret: env.SPOTIFY_CLIENT_SECRET,
+});
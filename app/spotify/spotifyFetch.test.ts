@@ -0,0 +1,170 @@
+/**
+ * @jest-environment node
+ */
+
+// Polyfill fetch the same way that Next does on the server
+import "next/dist/server/node-polyfill-fetch";
+import log from "loglevel";
+import { SpotifyApiError } from "./errors";
+import { SpotifyClient } from "./spotifyClient";
+import { AccessTokenFields, SpotifyUser, createSpotifyFetch } from "./spotifyFetch";
+
+log.setLevel("silent");
+
+describe("createSpotifyFetch", () => {
+  // The responses that the stubbed API sends, in order
+  let responses: Response[];
+  // The method, path, and access token of each request that the stubbed API received
+  let requests: string[];
+  let savedTokens: AccessTokenFields[];
+  let user: SpotifyUser;
+
+  const client: SpotifyClient = {
+    getAuthorizeUrl: () => "",
+    requestToken: async () => {
+      requests.push("POST /api/token");
+      return new Response(JSON.stringify({ access_token: "new-token", expires_in: 3600 }));
+    },
+    requestApi: async (accessToken, path, init = {}) => {
+      requests.push(`${init.method ?? "GET"} ${path} ${accessToken}`);
+      const res = responses.shift();
+      if (!res) {
+        throw new Error(`Unexpected request to ${path}`);
+      }
+      return res;
+    },
+  };
+  const spotifyFetch = createSpotifyFetch({
+    client,
+    saveAccessToken: async (_userId, fields) => {
+      savedTokens.push(fields);
+    },
+  });
+
+  // Create a response with a status code and JSON body
+  function respond(status: number, body: unknown = {}, headers: Record<string, string> = {}) {
+    return new Response(JSON.stringify(body), { status, headers });
+  }
+
+  beforeEach(() => {
+    responses = [];
+    requests = [];
+    savedTokens = [];
+    user = {
+      id: 1,
+      accessToken: "token",
+      accessTokenExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      refreshToken: "refresh-token",
+    };
+  });
+
+  it("returns the response body", async () => {
+    responses.push(respond(200, { items: [] }), new Response(null, { status: 201 }));
+
+    await expect(spotifyFetch(user, "/v1/me/tracks")).resolves.toEqual({ items: [] });
+    await expect(spotifyFetch(user, "/v1/me/tracks", { method: "PUT" })).resolves.toBeNull();
+  });
+
+  it("refreshes expired access tokens before sending requests", async () => {
+    user.accessTokenExpiresAt = new Date(Date.now() - 1000);
+    responses.push(respond(200));
+
+    await spotifyFetch(user, "/v1/me/tracks");
+
+    expect(requests).toEqual(["POST /api/token", "GET /v1/me/tracks new-token"]);
+    expect(savedTokens).toEqual([
+      { accessToken: "new-token", accessTokenExpiresAt: expect.any(Date) },
+    ]);
+    expect(user.accessToken).toBe("new-token");
+  });
+
+  it("refreshes rejected access tokens once", async () => {
+    responses.push(respond(401), respond(200, { id: "user" }));
+
+    await expect(spotifyFetch(user, "/v1/me")).resolves.toEqual({ id: "user" });
+    expect(requests).toEqual(["GET /v1/me token", "POST /api/token", "GET /v1/me new-token"]);
+
+    responses.push(respond(401), respond(401));
+    await expect(spotifyFetch(user, "/v1/me")).rejects.toMatchObject({ status: 401 });
+  });
+
+  it("retries rate limited requests after the delay that Spotify asks for", async () => {
+    responses.push(
+      respond(429, {}, { "Retry-After": "0" }),
+      respond(429, {}, { "Retry-After": "0" }),
+      respond(201, { snapshot_id: "snapshot" }),
+    );
+
+    await expect(
+      spotifyFetch(user, "/v1/playlists/playlist/tracks", { method: "POST" }),
+    ).resolves.toEqual({ snapshot_id: "snapshot" });
+    expect(requests).toHaveLength(3);
+  });
+
+  it("gives up instead of waiting too long to retry", async () => {
+    responses.push(respond(429, {}, { "Retry-After": "3600" }));
+
+    const promise = spotifyFetch(user, "/v1/me/tracks");
+    await expect(promise).rejects.toBeInstanceOf(SpotifyApiError);
+    await expect(promise).rejects.toMatchObject({ status: 429, endpoint: "GET /v1/me/tracks" });
+    expect(requests).toHaveLength(1);
+  });
+
+  it("gives up after retrying too many times", async () => {
+    for (let index = 0; index < 6; ++index) {
+      responses.push(respond(429, {}, { "Retry-After": "0" }));
+    }
+
+    await expect(spotifyFetch(user, "/v1/me/tracks")).rejects.toMatchObject({ status: 429 });
+    expect(requests).toHaveLength(6);
+  });
+
+  it("retries idempotent requests that failed with server errors", async () => {
+    responses.push(
+      respond(502, {}, { "Retry-After": "0" }),
+      respond(200),
+      respond(503, {}, { "Retry-After": "0" }),
+      respond(200),
+      respond(500, {}, { "Retry-After": "0" }),
+      respond(200),
+    );
+
+    await spotifyFetch(user, "/v1/me/tracks");
+    await spotifyFetch(user, "/v1/playlists/playlist", { method: "PUT" });
+    await spotifyFetch(user, "/v1/playlists/playlist/followers", { method: "DELETE" });
+    expect(requests).toHaveLength(6);
+  });
+
+  it("doesn't retry non-idempotent requests that failed with server errors", async () => {
+    responses.push(respond(502, {}, { "Retry-After": "0" }));
+
+    await expect(
+      spotifyFetch(user, "/v1/users/user/playlists", { method: "POST" }),
+    ).rejects.toMatchObject({ status: 502, endpoint: "POST /v1/users/user/playlists" });
+    expect(requests).toHaveLength(1);
+  });
+
+  it("doesn't retry requests that aren't idempotent after server errors", async () => {
+    responses.push(respond(502, {}, { "Retry-After": "0" }));
+
+    await expect(
+      spotifyFetch(user, "/v1/playlists/playlist/tracks", { method: "PUT", idempotent: false }),
+    ).rejects.toMatchObject({ status: 502, endpoint: "PUT /v1/playlists/playlist/tracks" });
+    expect(requests).toHaveLength(1);
+
+    // Rate limited requests weren't applied, so they are still retried
+    responses.push(respond(429, {}, { "Retry-After": "0" }), respond(200));
+    await spotifyFetch(user, "/v1/playlists/playlist/tracks", { method: "PUT", idempotent: false });
+    expect(requests).toHaveLength(3);
+  });
+
+  it("doesn't retry client errors", async () => {
+    responses.push(new Response("Forbidden", { status: 403 }));
+
+    await expect(spotifyFetch(user, "/v1/audio-features")).rejects.toMatchObject({
+      status: 403,
+      body: null,
+    });
+    expect(requests).toHaveLength(1);
+  });
+});
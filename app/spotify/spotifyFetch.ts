@@ -0,0 +1,162 @@
+import log from "loglevel";
+import { z } from "zod";
+import { makeConcurrencyLimit, sleep } from "../lib/async";
+import { SpotifyApiError } from "./errors";
+import { SpotifyClient } from "./spotifyClient";
+import type { User } from "db";
+
+// POST https://accounts.spotify.com/api/token
+// Only includes fields that we care about
+const TokenResponse = z.object({
+  access_token: z.string(),
+  expires_in: z.number(),
+});
+
+// The fields of a user that requests to the Spotify API need
+export type SpotifyUser = Pick<
+  User,
+  "id" | "accessToken" | "accessTokenExpiresAt" | "refreshToken"
+>;
+
+// The fields of a user that change when their access token is refreshed
+export type AccessTokenFields = Pick<User, "accessToken" | "accessTokenExpiresAt">;
+
+type SpotifyFetchOptions = {
+  client: SpotifyClient;
+  // Save a user's new access token after it is refreshed
+  saveAccessToken(userId: number, fields: AccessTokenFields): Promise<void>;
+};
+
+// The options of a request to the Spotify API
+export type SpotifyRequestInit = RequestInit & {
+  // Whether sending the request twice has the same effect as sending it once, which decides
+  // whether it is retried after server errors
+  // Defaults to true for GET, PUT, and DELETE requests, but some PUT requests, like ones that move
+  // a playlist's tracks, aren't
+  idempotent?: boolean;
+};
+
+// Make a request to the Spotify API
+// `path` is relative to the API's base URL, like "/v1/me/tracks?limit=5"
+// Return the response body JSON or throw a SpotifyApiError
+export type SpotifyFetch = (
+  user: SpotifyUser,
+  path: string,
+  init?: SpotifyRequestInit,
+) => Promise<unknown>;
+
+// Retry requests that failed because of rate limiting or a server error this many times
+const maxRetries = 5;
+// How long to wait before retrying a request without a Retry-After header, which doubles after
+// each retry
+const baseRetryDelay = 500;
+// Give up instead of retrying if Spotify asks us to wait longer than this, because the request
+// that is waiting might be from a user waiting for a response
+const maxRetryDelay = 10 * 1000;
+// Requests that can usually be safely repeated, even if the first attempt was applied before it
+// failed
+const idempotentMethods = new Set(["GET", "PUT", "DELETE"]);
+
+// Calculate how long to wait in milliseconds before retrying a failed response
+function getRetryDelay(res: Response, retries: number): number {
+  // Rate limited responses say how many seconds to wait
+  const retryAfter = res.headers.get("Retry-After");
+  if (retryAfter !== null && Number.isFinite(Number(retryAfter))) {
+    return Number(retryAfter) * 1000;
+  }
+  return baseRetryDelay * 2 ** retries;
+}
+
+// Determine whether a failed request can be retried
+// Rate limited requests were never applied, so they can always be retried, but a request that
+// failed with a server error might have been applied anyway, so only idempotent ones are retried
+function isRetryable(idempotent: boolean, status: number): boolean {
+  return status === 429 || (status >= 500 && idempotent);
+}
+
+// Create a function that makes requests to the Spotify API
+// The function takes care of adding the Spotify access token to the request, retrying failures
+// due to an expired access token, rate limiting, or server errors, and limiting the number of
+// concurrent requests
+export function createSpotifyFetch({ client, saveAccessToken }: SpotifyFetchOptions): SpotifyFetch {
+  // Limit the number of requests to Spotify that are in flight at once so that syncing many
+  // playlists in parallel doesn't immediately trigger rate limiting
+  const limitConcurrency = makeConcurrencyLimit(4);
+
+  // Get the user a new Spotify access token, updating the provided user object
+  async function refreshAccessToken(user: SpotifyUser): Promise<void> {
+    // Exchange the refresh token for an access token
+    const body = new URLSearchParams();
+    body.append("grant_type", "refresh_token");
+    body.append("refresh_token", user.refreshToken);
+    const tokenRes = await client.requestToken(body);
+    const tokenBody: unknown = await tokenRes.json();
+    if (!tokenRes.ok) {
+      throw new SpotifyApiError(tokenRes.status, "POST /api/token", tokenBody);
+    }
+    const { access_token: accessToken, expires_in: expiresIn } = TokenResponse.parse(tokenBody);
+
+    // Save the new access token
+    const modifiedFields = {
+      accessToken,
+      // expiresIn is the length of the token's validity in seconds
+      // Calculate the absolute time when it will expire, considering it expired a minute
+      // sooner to avoid accidentally using an expired access token
+      accessTokenExpiresAt: new Date(Date.now() + (expiresIn - 60) * 1000),
+    };
+    await saveAccessToken(user.id, modifiedFields);
+    Object.assign(user, modifiedFields);
+  }
+
+  return async (user, path, { idempotent, ...init } = {}) => {
+    const method = init.method ?? "GET";
+    const isIdempotent = idempotent ?? idempotentMethods.has(method);
+    const endpoint = `${method} ${path.split("?")[0] ?? path}`;
+    let retries = 0;
+    let refreshedToken = false;
+
+    /* eslint-disable no-await-in-loop */
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      if (new Date() > user.accessTokenExpiresAt) {
+        // The access token is expired, so preemptively refresh it
+        log.info("Expired access token, retrying...");
+        await refreshAccessToken(user);
+      }
+
+      log.info(`${method} ${path}`);
+      const res = await limitConcurrency(() => client.requestApi(user.accessToken, path, init));
+      log.info(`Status: ${res.status}`);
+
+      if (res.ok) {
+        // Some endpoints, like the ones that save tracks and change playlist details, respond with
+        // an empty body
+        const text = await res.text();
+        return text ? (JSON.parse(text) as unknown) : null;
+      }
+
+      // Error responses from proxies in front of the API might not be JSON
+      const body: unknown = await res.json().catch(() => null);
+      const delay = getRetryDelay(res, retries);
+      if (res.status === 401 && !refreshedToken) {
+        // The access token was rejected before it was supposed to expire, so refresh it and retry
+        log.info("Rejected access token, retrying...");
+        refreshedToken = true;
+        await refreshAccessToken(user);
+      } else if (
+        isRetryable(isIdempotent, res.status) &&
+        retries < maxRetries &&
+        delay <= maxRetryDelay
+      ) {
+        log.warn(`${endpoint} failed with status ${res.status}, retrying in ${delay}ms...`);
+        ++retries;
+        await sleep(delay);
+      } else {
+        log.error("Spotify API error:");
+        log.error(body);
+        throw new SpotifyApiError(res.status, endpoint, body);
+      }
+    }
+    /* eslint-enable no-await-in-loop */
+  };
+}
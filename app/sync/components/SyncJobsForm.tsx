@@ -0,0 +1,73 @@
+import { invalidateQuery, useMutation, useQuery } from "@blitzjs/rpc";
+import { Box, Select, Text, Title } from "@mantine/core";
+import updateSyncJob from "../mutations/updateSyncJob";
+import getSyncJobs from "../queries/getSyncJobs";
+import { handleAsyncErrors } from "app/lib/async";
+import type { SyncFrequency, SyncJobType } from "db";
+
+const jobTypes: { type: SyncJobType; label: string }[] = [
+  { type: "PULL_TRACKS", label: "Pull tracks from Spotify" },
+  { type: "PUSH_PLAYLISTS", label: "Push playlists to Spotify" },
+];
+
+const frequencyOptions: { value: SyncFrequency | "NEVER"; label: string }[] = [
+  { value: "NEVER", label: "Never" },
+  { value: "HOURLY", label: "Hourly" },
+  { value: "DAILY", label: "Nightly" },
+  { value: "WEEKLY", label: "Weekly" },
+];
+
+export default function SyncJobsForm(): JSX.Element {
+  const [
+    {
+      data: { jobs },
+    },
+  ] = useQuery(getSyncJobs, {});
+  const [updateSyncJobMutation, { isLoading: isUpdating }] = useMutation(updateSyncJob);
+
+  return (
+    <Box sx={{ width: "30em", display: "flex", flexDirection: "column", gap: "1em" }}>
+      <Title order={2}>Sync schedule</Title>
+      <Text color="dimmed" size="sm">
+        Scheduled syncs run in the background, even when the app isn&apos;t open. Nightly and weekly
+        syncs run at night in your time zone.
+      </Text>
+      {jobTypes.map(({ type, label }) => {
+        const job = jobs.find((job) => job.type === type);
+        return (
+          <Box key={type}>
+            <Select
+              label={label}
+              data={frequencyOptions}
+              value={job?.frequency ?? "NEVER"}
+              disabled={isUpdating}
+              onChange={(value) => {
+                handleAsyncErrors(
+                  (async () => {
+                    await updateSyncJobMutation({
+                      type,
+                      frequency:
+                        value === "NEVER" || value === null ? null : (value as SyncFrequency),
+                    });
+                    await invalidateQuery(getSyncJobs);
+                  })(),
+                );
+              }}
+            />
+            {job && (
+              <Text color="dimmed" size="sm">
+                Next sync: {job.nextRunAt.toLocaleString()}
+                {job.lastRunAt && ` · Last sync: ${job.lastRunAt.toLocaleString()}`}
+              </Text>
+            )}
+            {job?.lastError && (
+              <Text color="red" size="sm">
+                Last sync failed: {job.lastError}
+              </Text>
+            )}
+          </Box>
+        );
+      })}
+    </Box>
+  );
+}
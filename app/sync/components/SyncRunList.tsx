@@ -0,0 +1,82 @@
+import { Accordion, Badge, Group, Table, Text } from "@mantine/core";
+import type { SyncRun, SyncRunError, SyncRunType } from "db";
+
+const runTypeLabels: Record<SyncRunType, string> = {
+  PULL_TRACKS: "Pull tracks",
+  RESYNC_TRACKS: "Resync tracks",
+  PUSH_PLAYLISTS: "Push playlists",
+};
+
+// Describe how long a run took, like "12s"
+function formatElapsed(run: SyncRun): string {
+  if (run.finishedAt === null) {
+    return "running";
+  }
+  const seconds = Math.round((run.finishedAt.getTime() - run.startedAt.getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// Describe the changes that a run made, like "Added 3 tracks"
+function formatChanges(run: SyncRun): string {
+  const changes = [
+    run.tracksAdded > 0 && `Added ${run.tracksAdded} tracks`,
+    run.tracksRemoved > 0 && `Removed ${run.tracksRemoved} tracks`,
+    run.playlistsCreated > 0 && `Created ${run.playlistsCreated} playlists`,
+    run.playlistsUpdated > 0 && `Updated ${run.playlistsUpdated} playlists`,
+  ].filter(Boolean);
+  return changes.length === 0 ? "No changes" : changes.join(" · ");
+}
+
+export default function SyncRunList(props: {
+  runs: (SyncRun & { errors: SyncRunError[] })[];
+}): JSX.Element {
+  return (
+    <Accordion multiple variant="separated">
+      {props.runs.map((run) => (
+        <Accordion.Item key={run.id} value={run.id.toString()}>
+          <Accordion.Control>
+            <Group>
+              <Text weight="bold">{runTypeLabels[run.type]}</Text>
+              <Text color="dimmed" size="sm">
+                {run.startedAt.toLocaleString()} · {formatElapsed(run)}
+                {run.scheduled && " · Scheduled"}
+              </Text>
+              {run.errors.length > 0 ? (
+                <Badge color="red">
+                  {run.errors.length} {run.errors.length === 1 ? "error" : "errors"}
+                </Badge>
+              ) : run.finishedAt === null ? null : (
+                <Badge color="green">Succeeded</Badge>
+              )}
+            </Group>
+          </Accordion.Control>
+          <Accordion.Panel>
+            <Text>{formatChanges(run)}</Text>
+            {run.errors.length > 0 && (
+              <Table mt="sm">
+                <thead>
+                  <tr>
+                    <th>Playlist</th>
+                    <th>Error</th>
+                    <th>Spotify request</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {run.errors.map((error) => (
+                    <tr key={error.id}>
+                      <td>{error.labelName ?? "All"}</td>
+                      <td>{error.message}</td>
+                      <td>{error.endpoint ?? "-"}</td>
+                      <td>{error.status ?? "-"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </Table>
+            )}
+          </Accordion.Panel>
+        </Accordion.Item>
+      ))}
+    </Accordion>
+  );
+}
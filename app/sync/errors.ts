@@ -0,0 +1,16 @@
+import SuperJson from "superjson";
+
+// Thrown when a sync can't start because another sync for the same user is still running
+export class SyncInProgressError extends Error {
+  name = "SyncInProgressError";
+
+  constructor(public userId: number) {
+    super(`A sync is already running for user ${userId}`);
+  }
+}
+
+// Register the error so that it keeps its class and properties when it is sent to the client
+SuperJson.registerClass(SyncInProgressError, {
+  identifier: "SyncInProgressError",
+  allowProps: ["message", "stack", "userId"],
+});
@@ -0,0 +1,37 @@
+import { resolver } from "@blitzjs/rpc";
+import { z } from "zod";
+import { getNextRunAt } from "../schedule";
+import db, { SyncFrequency, SyncJobType } from "db";
+
+const UpdateSyncJob = z.object({
+  type: z.nativeEnum(SyncJobType),
+  // How often the sync runs, or null to stop running it on a schedule
+  frequency: z.nativeEnum(SyncFrequency).nullable(),
+});
+
+/*
+ * Schedule one of the user's syncs to run in the background, or unschedule it.
+ */
+export default resolver.pipe(
+  resolver.zod(UpdateSyncJob),
+  resolver.authorize(),
+  async ({ type, frequency }, ctx) => {
+    const userId = ctx.session.userId;
+
+    if (frequency === null) {
+      await db.syncJob.deleteMany({ where: { userId, type } });
+      return;
+    }
+
+    const { timeZone } = await db.user.findFirstOrThrow({
+      where: { id: userId },
+      select: { timeZone: true },
+    });
+    const nextRunAt = getNextRunAt(frequency, timeZone, new Date());
+    await db.syncJob.upsert({
+      where: { userId_type: { userId, type } },
+      create: { userId, type, frequency, nextRunAt },
+      update: { frequency, nextRunAt },
+    });
+  },
+);
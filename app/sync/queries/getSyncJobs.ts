@@ -0,0 +1,17 @@
+import { resolver } from "@blitzjs/rpc";
+import db from "db";
+
+/*
+ * Get the user's scheduled syncs.
+ */
+export default resolver.pipe(resolver.authorize(), async (_, ctx) => {
+  const jobs = await db.syncJob.findMany({
+    where: { userId: ctx.session.userId },
+    select: { type: true, frequency: true, nextRunAt: true, lastRunAt: true, lastError: true },
+  });
+
+  return {
+    success: true as const,
+    data: { jobs },
+  };
+});
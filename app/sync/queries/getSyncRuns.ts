@@ -0,0 +1,34 @@
+import { resolver } from "@blitzjs/rpc";
+import { z } from "zod";
+import db from "db";
+
+const GetSyncRuns = z.object({
+  skip: z.number().nonnegative().optional(),
+  take: z.number().nonnegative().optional(),
+});
+
+/*
+ * Get the user's recent syncs, most recent first.
+ */
+export default resolver.pipe(
+  resolver.zod(GetSyncRuns),
+  resolver.authorize(),
+  async ({ skip = 0, take = 25 }, ctx) => {
+    const where = { userId: ctx.session.userId };
+    const [runs, count] = await Promise.all([
+      db.syncRun.findMany({
+        where,
+        orderBy: { startedAt: "desc" },
+        skip,
+        take,
+        include: { errors: { orderBy: { id: "asc" } } },
+      }),
+      db.syncRun.count({ where }),
+    ]);
+
+    return {
+      success: true as const,
+      data: { runs, count },
+    };
+  },
+);
@@ -0,0 +1,41 @@
+import { getNextRunAt } from "./schedule";
+
+describe("getNextRunAt", () => {
+  it("runs hourly jobs at the start of the next hour", () => {
+    expect(getNextRunAt("HOURLY", "UTC", new Date("2022-10-10T12:34:56Z"))).toEqual(
+      new Date("2022-10-10T13:00:00Z"),
+    );
+    expect(getNextRunAt("HOURLY", "UTC", new Date("2022-10-10T23:00:00Z"))).toEqual(
+      new Date("2022-10-11T00:00:00Z"),
+    );
+  });
+
+  it("runs daily jobs at night in the user's time zone", () => {
+    expect(getNextRunAt("DAILY", "UTC", new Date("2022-10-10T01:00:00Z"))).toEqual(
+      new Date("2022-10-10T03:00:00Z"),
+    );
+    expect(getNextRunAt("DAILY", "UTC", new Date("2022-10-10T03:00:00Z"))).toEqual(
+      new Date("2022-10-11T03:00:00Z"),
+    );
+    expect(getNextRunAt("DAILY", "America/New_York", new Date("2022-10-10T12:00:00Z"))).toEqual(
+      new Date("2022-10-11T07:00:00Z"),
+    );
+  });
+
+  it("runs weekly jobs on Monday nights in the user's time zone", () => {
+    // Wednesday
+    expect(getNextRunAt("WEEKLY", "UTC", new Date("2022-10-12T12:00:00Z"))).toEqual(
+      new Date("2022-10-17T03:00:00Z"),
+    );
+    // Monday before and after the job runs
+    expect(getNextRunAt("WEEKLY", "UTC", new Date("2022-10-17T02:00:00Z"))).toEqual(
+      new Date("2022-10-17T03:00:00Z"),
+    );
+    expect(getNextRunAt("WEEKLY", "UTC", new Date("2022-10-17T04:00:00Z"))).toEqual(
+      new Date("2022-10-24T03:00:00Z"),
+    );
+    expect(getNextRunAt("WEEKLY", "Asia/Tokyo", new Date("2022-10-16T17:00:00Z"))).toEqual(
+      new Date("2022-10-16T18:00:00Z"),
+    );
+  });
+});
@@ -0,0 +1,24 @@
+import { addDays, addHours, isAfter, nextMonday, set, startOfHour } from "date-fns";
+import { utcToZonedTime, zonedTimeToUtc } from "date-fns-tz";
+import type { SyncFrequency } from "db";
+
+// The hour of the night that daily and weekly syncs run at in the user's time zone, when they are
+// least likely to be using the app
+const nightlyHour = 3;
+
+// Calculate when a job that runs at a frequency is next due after a date
+export function getNextRunAt(frequency: SyncFrequency, timeZone: string, after: Date): Date {
+  const zoned = utcToZonedTime(after, timeZone);
+  if (frequency === "HOURLY") {
+    return zonedTimeToUtc(addHours(startOfHour(zoned), 1), timeZone);
+  }
+
+  let next = set(zoned, { hours: nightlyHour, minutes: 0, seconds: 0, milliseconds: 0 });
+  if (!isAfter(next, zoned)) {
+    next = addDays(next, 1);
+  }
+  if (frequency === "WEEKLY" && next.getDay() !== 1) {
+    next = nextMonday(next);
+  }
+  return zonedTimeToUtc(next, timeZone);
+}
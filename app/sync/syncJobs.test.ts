@@ -0,0 +1,160 @@
+/**
+ * @jest-environment node
+ */
+
+// Polyfill fetch the same way that Next does on the server
+import "next/dist/server/node-polyfill-fetch";
+import { SyncInProgressError } from "./errors";
+import type { User } from "db";
+import { FakeSpotifyServer, startFakeSpotifyServer } from "test/fakeSpotifyServer";
+
+// These tests run jobs against a fake Spotify server but need a real database, so they only run
+// when INTEGRATION is set, i.e. `INTEGRATION=1 npm test -- syncJobs`
+const describeIntegration = process.env.INTEGRATION ? describe : describe.skip;
+
+describeIntegration("syncJobs", () => {
+  // The database and jobs are loaded lazily so that they use the fake server's URL
+  let db: typeof import("db").default;
+  let syncJobs: typeof import("./syncJobs");
+  let withSyncLock: typeof import("./syncLock").withSyncLock;
+  let spotify: FakeSpotifyServer;
+
+  const prefix = `test-${Date.now()}`;
+  let numUsers = 0;
+  let user: User;
+
+  const now = new Date("2022-10-10T12:30:00Z");
+
+  beforeAll(async () => {
+    spotify = await startFakeSpotifyServer();
+    process.env.SPOTIFY_ACCOUNTS_URL = spotify.url;
+    process.env.SPOTIFY_API_URL = spotify.url;
+    process.env.SPOTIFY_CLIENT_ID ??= "client-id";
+    process.env.SPOTIFY_CLIENT_SECRET ??= "client-secret";
+    process.env.DOMAIN ??= "http://localhost:3000";
+
+    ({ default: db } = await import("db"));
+    syncJobs = await import("./syncJobs");
+    ({ withSyncLock } = await import("./syncLock"));
+  });
+
+  beforeEach(async () => {
+    spotify.reset();
+    user = await db.user.create({
+      data: {
+        spotifyId: `${prefix}-user-${++numUsers}`,
+        accessToken: spotify.state.accessToken,
+        accessTokenExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        refreshToken: "refresh-token",
+      },
+    });
+    spotify.state.userId = user.spotifyId;
+  });
+
+  afterEach(async () => {
+    await db.user.deleteMany({ where: { spotifyId: { startsWith: prefix } } });
+  });
+
+  afterAll(async () => {
+    await db.$disconnect();
+    await spotify.close();
+  });
+
+  it("runs due jobs and schedules their next run", async () => {
+    const due = await db.syncJob.create({
+      data: { userId: user.id, type: "PULL_TRACKS", frequency: "HOURLY", nextRunAt: now },
+    });
+    const later = await db.syncJob.create({
+      data: {
+        userId: user.id,
+        type: "PUSH_PLAYLISTS",
+        frequency: "DAILY",
+        nextRunAt: new Date("2022-10-11T03:00:00Z"),
+      },
+    });
+
+    await expect(syncJobs.runDueSyncJobs(now)).resolves.toBe(1);
+
+    expect(spotify.requests).toContain("GET /v1/me/tracks");
+    await expect(
+      db.syncRun.findFirstOrThrow({ where: { userId: user.id } }),
+    ).resolves.toMatchObject({ type: "PULL_TRACKS", scheduled: true, tracksAdded: 0 });
+    await expect(db.syncJob.findFirstOrThrow({ where: { id: due.id } })).resolves.toMatchObject({
+      nextRunAt: new Date("2022-10-10T13:00:00Z"),
+      lastRunAt: now,
+      lastError: null,
+    });
+    await expect(db.syncJob.findFirstOrThrow({ where: { id: later.id } })).resolves.toMatchObject({
+      nextRunAt: later.nextRunAt,
+      lastRunAt: null,
+    });
+    await expect(db.user.findFirstOrThrow({ where: { id: user.id } })).resolves.toMatchObject({
+      syncLockExpiresAt: null,
+    });
+  });
+
+  it("records failed syncs", async () => {
+    const job = await db.syncJob.create({
+      data: { userId: user.id, type: "PULL_TRACKS", frequency: "HOURLY", nextRunAt: now },
+    });
+    spotify.failNext("GET /v1/me/tracks", 403);
+
+    await expect(syncJobs.runDueSyncJobs(now)).resolves.toBe(1);
+
+    const { lastError, nextRunAt } = await db.syncJob.findFirstOrThrow({ where: { id: job.id } });
+    expect(lastError).toMatch("failed with status 403");
+    expect(nextRunAt).toEqual(new Date("2022-10-10T13:00:00Z"));
+    const run = await db.syncRun.findFirstOrThrow({
+      where: { userId: user.id },
+      include: { errors: true },
+    });
+    expect(run.finishedAt).not.toBeNull();
+    expect(run.errors).toMatchObject([
+      { labelName: null, endpoint: "GET /v1/me/tracks", status: 403 },
+    ]);
+  });
+
+  it("leaves jobs due while the user is already syncing", async () => {
+    const job = await db.syncJob.create({
+      data: { userId: user.id, type: "PULL_TRACKS", frequency: "HOURLY", nextRunAt: now },
+    });
+
+    await withSyncLock(user.id, async () => {
+      await expect(syncJobs.runDueSyncJobs(now)).resolves.toBe(0);
+      await expect(withSyncLock(user.id, async () => {})).rejects.toThrow(SyncInProgressError);
+    });
+
+    expect(spotify.requests).toEqual([]);
+    await expect(db.syncJob.findFirstOrThrow({ where: { id: job.id } })).resolves.toMatchObject({
+      nextRunAt: now,
+      lastRunAt: null,
+    });
+  });
+
+  it("doesn't release a lock that another sync took over after it expired", async () => {
+    const takenOverUntil = new Date(Date.now() + 60 * 1000);
+
+    await withSyncLock(user.id, async () => {
+      // Another sync takes over the lock as if this sync's lock had expired
+      await db.user.update({
+        where: { id: user.id },
+        data: { syncLockExpiresAt: takenOverUntil },
+      });
+    });
+
+    await expect(db.user.findFirstOrThrow({ where: { id: user.id } })).resolves.toMatchObject({
+      syncLockExpiresAt: takenOverUntil,
+    });
+  });
+
+  it("doesn't run a job that another worker already ran", async () => {
+    const job = await db.syncJob.create({
+      data: { userId: user.id, type: "PULL_TRACKS", frequency: "HOURLY", nextRunAt: now },
+    });
+
+    await expect(syncJobs.runSyncJob(job, now)).resolves.toBe(true);
+    await expect(syncJobs.runSyncJob(job, now)).resolves.toBe(false);
+
+    expect(spotify.requests.filter((request) => request === "GET /v1/me/tracks")).toHaveLength(1);
+  });
+});
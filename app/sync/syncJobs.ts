@@ -0,0 +1,81 @@
+import log from "loglevel";
+import { SyncInProgressError } from "./errors";
+import { getNextRunAt } from "./schedule";
+import { withSyncLock } from "./syncLock";
+import { recordSyncRun } from "./syncRuns";
+import { syncFavoriteTracks, syncPlaylists } from "app/spotify/spotifyApi";
+import db, { SyncJob } from "db";
+
+// Run a scheduled job if it is still due
+// The job is rescheduled before its sync starts so that no other worker also runs it, and a failed
+// sync is recorded on the job and retried at the next scheduled time
+// Return true if the job ran, or false if it was skipped because another worker already ran it or
+// the user is already syncing, in which case it stays due
+export async function runSyncJob(job: SyncJob, now: Date = new Date()): Promise<boolean> {
+  try {
+    return await withSyncLock(job.userId, async () => {
+      const user = await db.user.findFirstOrThrow({ where: { id: job.userId } });
+      const { count } = await db.syncJob.updateMany({
+        where: { id: job.id, nextRunAt: job.nextRunAt },
+        data: { nextRunAt: getNextRunAt(job.frequency, user.timeZone, now) },
+      });
+      if (count === 0) {
+        return false;
+      }
+
+      log.info(`Running ${job.type} job for user ${job.userId}`);
+      let lastError: string | null = null;
+      try {
+        if (job.type === "PULL_TRACKS") {
+          const { errors } = await recordSyncRun(user.id, "PULL_TRACKS", true, () =>
+            syncFavoriteTracks(user),
+          );
+          if (errors.length > 0) {
+            lastError = errors.map(({ message }) => message).join("\n");
+          }
+        } else {
+          const { errors } = await recordSyncRun(user.id, "PUSH_PLAYLISTS", true, () =>
+            syncPlaylists(user),
+          );
+          if (errors.length > 0) {
+            lastError = `${errors.length} playlists failed to push`;
+          }
+        }
+      } catch (err) {
+        log.error(`${job.type} job for user ${job.userId} failed:`);
+        log.error(err);
+        lastError = err instanceof Error ? err.message : String(err);
+      }
+
+      await db.syncJob.updateMany({
+        where: { id: job.id },
+        data: { lastRunAt: now, lastError },
+      });
+      return true;
+    });
+  } catch (err) {
+    if (err instanceof SyncInProgressError) {
+      return false;
+    }
+    throw err;
+  }
+}
+
+// Run all of the jobs that are due, one at a time
+// Return the number of jobs that ran
+export async function runDueSyncJobs(now: Date = new Date()): Promise<number> {
+  const jobs = await db.syncJob.findMany({
+    where: { nextRunAt: { lte: now } },
+    orderBy: { nextRunAt: "asc" },
+  });
+
+  let jobsRun = 0;
+  /* eslint-disable no-await-in-loop */
+  for (const job of jobs) {
+    if (await runSyncJob(job, now)) {
+      ++jobsRun;
+    }
+  }
+  /* eslint-enable no-await-in-loop */
+  return jobsRun;
+}
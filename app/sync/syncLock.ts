@@ -0,0 +1,63 @@
+import log from "loglevel";
+import { SyncInProgressError } from "./errors";
+import db from "db";
+
+// How long a lock lasts before another sync can take it over, in case the process holding it dies
+// without releasing it
+const lockLifetime = 10 * 60 * 1000;
+// How often a running sync extends its lock, which is often enough that the lock doesn't expire
+// while the sync is still running
+const renewInterval = 2 * 60 * 1000;
+
+// Run a sync for a user while holding their sync lock, so that a user never has two syncs at once
+// Throw a SyncInProgressError if another sync already holds the lock
+export async function withSyncLock<T>(userId: number, sync: () => Promise<T>): Promise<T> {
+  const now = new Date();
+  // The expiration time identifies this process's lock, so that it only ever renews or releases
+  // its own lock and not one that another process took over after it expired
+  let expiresAt = new Date(now.getTime() + lockLifetime);
+  const { count } = await db.user.updateMany({
+    where: {
+      id: userId,
+      OR: [{ syncLockExpiresAt: null }, { syncLockExpiresAt: { lte: now } }],
+    },
+    data: { syncLockExpiresAt: expiresAt },
+  });
+  if (count === 0) {
+    throw new SyncInProgressError(userId);
+  }
+
+  // Extend the lock while the sync runs
+  // Renewals are chained so that the lock is never released while a renewal is still changing it
+  let renewal = Promise.resolve();
+  const renewTimer = setInterval(() => {
+    renewal = renewal.then(async () => {
+      try {
+        const renewedExpiresAt = new Date(Date.now() + lockLifetime);
+        const { count: renewed } = await db.user.updateMany({
+          where: { id: userId, syncLockExpiresAt: expiresAt },
+          data: { syncLockExpiresAt: renewedExpiresAt },
+        });
+        if (renewed > 0) {
+          expiresAt = renewedExpiresAt;
+        } else {
+          log.warn(`Lost the sync lock for user ${userId}`);
+        }
+      } catch (err) {
+        log.error(`Renewing the sync lock for user ${userId} failed:`);
+        log.error(err);
+      }
+    });
+  }, renewInterval);
+
+  try {
+    return await sync();
+  } finally {
+    clearInterval(renewTimer);
+    await renewal;
+    await db.user.updateMany({
+      where: { id: userId, syncLockExpiresAt: expiresAt },
+      data: { syncLockExpiresAt: null },
+    });
+  }
+}
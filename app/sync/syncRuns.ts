@@ -0,0 +1,57 @@
+import { SpotifyApiError } from "app/spotify/errors";
+import { SyncError, SyncPlaylistsResult, SyncTracksResult } from "app/spotify/spotifyApi";
+import db, { SyncRunType } from "db";
+
+// How long sync runs are kept in the user's history
+const historyLifetime = 30 * 24 * 60 * 60 * 1000;
+
+// The counts and errors that a sync reports
+type SyncOutcome = Partial<
+  Omit<SyncTracksResult, "errors"> & Omit<SyncPlaylistsResult, "errors"> & { errors: SyncError[] }
+>;
+
+// Run a sync for a user and record it in their sync history, along with the error that stopped it
+// if it failed
+// Return the sync's result, or rethrow its error after it is recorded
+export async function recordSyncRun<Result extends SyncOutcome>(
+  userId: number,
+  type: SyncRunType,
+  scheduled: boolean,
+  sync: () => Promise<Result>,
+): Promise<Result> {
+  const run = await db.syncRun.create({ data: { userId, type, scheduled } });
+  await db.syncRun.deleteMany({
+    where: { userId, startedAt: { lt: new Date(run.startedAt.getTime() - historyLifetime) } },
+  });
+
+  try {
+    const result = await sync();
+    await db.syncRun.update({
+      where: { id: run.id },
+      data: {
+        finishedAt: new Date(),
+        tracksAdded: result.tracksAdded,
+        tracksRemoved: result.tracksRemoved,
+        playlistsCreated: result.playlistsCreated,
+        playlistsUpdated: result.playlistsUpdated,
+        errors: { create: result.errors ?? [] },
+      },
+    });
+    return result;
+  } catch (err) {
+    await db.syncRun.update({
+      where: { id: run.id },
+      data: {
+        finishedAt: new Date(),
+        errors: {
+          create: {
+            message: err instanceof Error ? err.message : String(err),
+            endpoint: err instanceof SpotifyApiError ? err.endpoint : null,
+            status: err instanceof SpotifyApiError ? err.status : null,
+          },
+        },
+      },
+    });
+    throw err;
+  }
+}
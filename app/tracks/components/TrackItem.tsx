@@ -23,6 +23,13 @@ export type TrackItemProps = {
   quickLabelId: number | null;
 };
 
+// Format a track's duration like "3:05"
+function formatDuration(durationMs: number): string {
+  const totalSeconds = Math.floor(durationMs / 1000);
+  const seconds = totalSeconds % 60;
+  return `${Math.floor(totalSeconds / 60)}:${seconds.toString().padStart(2, "0")}`;
+}
+
 export default function TrackItem({
   labels: allLabels,
   track,
@@ -101,6 +108,7 @@ export default function TrackItem({
         <Text size="lg">{track.name}</Text>
         <Text color="dimmed" size="sm">
           {map(track.artists, "name").join(" & ")}
+          {track.durationMs === null ? null : ` · ${formatDuration(track.durationMs)}`}
         </Text>
       </Box>
       <Box sx={{ flex: 1 }} />
@@ -0,0 +1,37 @@
+import { useQuery } from "@blitzjs/rpc";
+import { AutocompleteItem, Text } from "@mantine/core";
+import { useDebouncedValue } from "@mantine/hooks";
+import { useMemo } from "react";
+import { getCriteriaCompletions } from "app/lib/smartLabel";
+import getSearchExamples from "app/tracks/queries/getSearchExamples";
+
+// The Autocomplete inputs only show this many suggestions
+const maxCompletions = 10;
+
+// Suggest ways to continue a partially typed search as Autocomplete items
+export function useSearchCompletions(search: string): AutocompleteItem[] {
+  // Load the examples once instead of on every keystroke, and don't suspend while they load
+  const [result] = useQuery(getSearchExamples, {}, { suspense: false });
+  const examples = result?.data.examples;
+
+  // Recalculate the suggestions once the user pauses typing
+  const [debouncedSearch] = useDebouncedValue(search, 100);
+  const completions = useMemo(
+    () =>
+      examples ? getCriteriaCompletions(debouncedSearch, examples).slice(0, maxCompletions) : [],
+    [debouncedSearch, examples],
+  );
+
+  return completions.map(({ value, text, description }) => ({
+    value,
+    label: (
+      <Text>
+        {value === text ? "" : "... "}
+        {text}
+        <Text component="span" color="dimmed" size="sm" pl="0.5em">
+          {description}
+        </Text>
+      </Text>
+    ),
+  }));
+}
@@ -0,0 +1,66 @@
+import { sortBy } from "lodash";
+import { CriteriaClauses } from "app/lib/criteriaAst";
+import { compileSort } from "app/lib/criteriaCompiler";
+import db, { Prisma } from "db";
+
+type FindArgs = {
+  where: Prisma.TrackWhereInput;
+  orderBy: Prisma.TrackOrderByWithRelationInput[];
+  skip: number;
+  take?: number;
+};
+
+// Shuffle items in a way that is stable for the current day, so that previews of randomly sorted
+// criteria match the playlists pushed to Spotify on the same day
+function shuffleForToday<T>(items: T[]): T[] {
+  // mulberry32 seeded with the number of days since the epoch
+  let state = Math.floor(Date.now() / (24 * 60 * 60 * 1000));
+  const random = (): number => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  // Fisher-Yates shuffle
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; --index) {
+    const swapIndex = Math.floor(random() * (index + 1));
+    [shuffled[index], shuffled[swapIndex]] = [shuffled[swapIndex] as T, shuffled[index] as T];
+  }
+  return shuffled;
+}
+
+// Find a page of the tracks matching a filter, in the order and up to the limit specified by the
+// criteria's clauses
+// `findMany` performs the query so that callers can choose which fields to load
+// If `take` is omitted, all of the matching tracks after `skip` are returned
+export async function findOrderedTracks<Track extends { id: number }>(
+  where: Prisma.TrackWhereInput,
+  { sort, limit }: CriteriaClauses,
+  { skip = 0, take }: { skip?: number; take?: number },
+  findMany: (args: FindArgs) => Promise<Track[]>,
+): Promise<{ tracks: Track[]; count: number }> {
+  const orderBy = compileSort(sort);
+
+  if (sort?.field === "random") {
+    // Shuffle all of the matching tracks' ids, then load the tracks on the requested page
+    const matches = await db.track.findMany({ where, orderBy, select: { id: true } });
+    const ids = shuffleForToday(matches.map(({ id }) => id)).slice(0, limit ?? undefined);
+    const pageIds = ids.slice(skip, take === undefined ? undefined : skip + take);
+    const tracks = await findMany({ where: { id: { in: pageIds } }, orderBy, skip: 0 });
+    const positions = new Map(pageIds.map((id, index) => [id, index]));
+    return { tracks: sortBy(tracks, (track) => positions.get(track.id)), count: ids.length };
+  }
+
+  // Don't load tracks past the limit
+  const remaining = limit === null ? Infinity : Math.max(limit - skip, 0);
+  const pageSize = Math.min(take ?? Infinity, remaining);
+  const [tracks, count] = await Promise.all([
+    pageSize === 0
+      ? []
+      : findMany({ where, orderBy, skip, take: pageSize === Infinity ? undefined : pageSize }),
+    db.track.count({ where }),
+  ]);
+  return { tracks, count: limit === null ? count : Math.min(count, limit) };
+}
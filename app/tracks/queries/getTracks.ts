@@ -1,7 +1,9 @@
 import { resolver } from "@blitzjs/rpc";
-import { paginate } from "blitz";
 import { z } from "zod";
-import { generatePrismaFilter } from "app/lib/smartLabel";
+import { loadSmartLabelCriteria } from "app/labels/smartLabelCriteria";
+import { parseSmartCriteria } from "app/lib/smartLabel";
+import { findOrderedTracks } from "app/tracks/orderedTracks";
+import { loadUserTimeZone } from "app/users/userTimeZone";
 import db from "db";
 
 const GetTracks = z.object({
@@ -16,34 +18,36 @@ export default resolver.pipe(
   async ({ search, skip = 0, take = 25 }, ctx) => {
     const userId = ctx.session.userId;
 
-    const searchWhere = search ? generatePrismaFilter(search) : {};
-    if (searchWhere === null) {
+    const searchResult = search
+      ? parseSmartCriteria(
+          search,
+          await loadSmartLabelCriteria(userId),
+          await loadUserTimeZone(userId),
+        )
+      : { success: true as const, filter: {}, sort: null, limit: null };
+    if (!searchResult.success) {
       return {
         success: false as const,
-        error: {
-          message: "Invalid search query",
-        },
+        error: searchResult.error,
       };
     }
 
-    const where = { userId, ...searchWhere };
-    const { items: tracks, count } = await paginate({
-      skip,
-      take,
-      count: () => db.track.count({ where }),
-      query: (paginateArgs) =>
+    const where = { userId, ...searchResult.filter };
+    const { tracks, count } = await findOrderedTracks(
+      where,
+      searchResult,
+      { skip, take },
+      (findArgs) =>
         db.track.findMany({
-          ...paginateArgs,
-          where,
+          ...findArgs,
           include: {
             album: true,
             artists: true,
             // Include regular labels, but hide smart labels
             labels: { where: { smartCriteria: null } },
           },
-          orderBy: [{ dateAdded: "desc" }],
         }),
-    });
+    );
 
     return {
       success: true as const,
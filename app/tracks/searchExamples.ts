@@ -0,0 +1,112 @@
+import { sortBy, uniq } from "lodash";
+import { CriteriaExample } from "app/lib/smartLabel";
+import db from "db";
+
+// Build a list of example search terms based on the user's tracks and labels
+export async function loadSearchExamples(userId: number): Promise<CriteriaExample[]> {
+  const labelsPromise = db.label.findMany({
+    where: { userId },
+    select: { name: true },
+  });
+  const tracksPromise = db.track.findMany({
+    where: { userId },
+    orderBy: [{ dateAdded: "desc" }],
+    include: { album: true, artists: true },
+  });
+  const [labels, tracks] = await Promise.all([labelsPromise, tracksPromise]);
+  const labelNames = sortBy(uniq(labels.map((label) => label.name)));
+  const trackNames = sortBy(uniq(tracks.map((track) => track.name)));
+  const albumNames = sortBy(uniq(tracks.map((track) => track.album.name)));
+  const artistNames = sortBy(
+    uniq(tracks.flatMap((track) => track.artists.map((artist) => artist.name))),
+  );
+  const genres = sortBy(
+    uniq(tracks.flatMap((track) => track.artists.flatMap((artist) => artist.genres))),
+  );
+
+  return [
+    { value: "clean", description: "Clean" },
+    { value: "explicit", description: "Explicit" },
+    { value: "unlabeled", description: "Has no labels" },
+
+    { value: "added=2020", description: "Added in 2020" },
+    { value: "added<=2020", description: "Added in or before 2020" },
+    { value: "added>2020", description: "Added after 2020" },
+    { value: "added<4-1-2020", description: "Added before April 1, 2020" },
+    {
+      value: "added>=4-1-2020",
+      description: "Added on or after April 1, 2020",
+    },
+    { value: "added=7d", description: "Added 7 days ago" },
+    { value: "added<3m", description: "Added less than 3 months ago" },
+    { value: "added>=1y", description: "Added more than 1 year ago" },
+    { value: "added<2w", description: "Added less than 2 weeks ago" },
+    { value: "added=2021-04", description: "Added in April 2021" },
+    { value: "added>=2021-04-01", description: "Added on or after April 1, 2021" },
+    { value: "added=2020..2021", description: "Added between 2020 and 2021" },
+    { value: "added=today", description: "Added today" },
+    { value: "added=this-week", description: "Added this week" },
+    { value: "added=last-month", description: "Added last month" },
+    { value: "added=this-year", description: "Added this year" },
+
+    { value: "released=2020", description: "Released in 2020" },
+    { value: "released<=2020", description: "Released in or before 2020" },
+    { value: "released>2020", description: "Released after 2020" },
+    {
+      value: "released<4-1-2020",
+      description: "Released before April 1, 2020",
+    },
+    {
+      value: "released>=4-1-2020",
+      description: "Released on or after April 1, 2020",
+    },
+    { value: "released=7d", description: "Released 7 days ago" },
+    { value: "released<3m", description: "Released less than 3 months ago" },
+    { value: "released>=1y", description: "Released more than 1 year ago" },
+    { value: "released=1990s", description: "Released in the 1990s" },
+    { value: "released=1990s..2000s", description: "Released between 1990 and 2009" },
+    { value: "released=2021-04", description: "Released in April 2021" },
+    { value: "released=last-year", description: "Released last year" },
+
+    { value: "tempo>=120", description: "At least 120 beats per minute" },
+    { value: "tempo<90", description: "Slower than 90 beats per minute" },
+    { value: "energy>0.7", description: "High energy" },
+    { value: "energy<0.4", description: "Low energy" },
+    { value: "danceability>0.7", description: "Danceable" },
+    { value: 'key="C"', description: "In the key of C" },
+    { value: "duration<3m", description: "Shorter than 3 minutes" },
+    { value: "duration>=6m", description: "At least 6 minutes long" },
+    { value: "duration<3m30s", description: "Shorter than 3 minutes and 30 seconds" },
+    { value: "popularity<20", description: "Deep cuts" },
+    { value: "popularity>=70", description: "Popular tracks" },
+
+    { value: "sort:added", description: "Most recently added first" },
+    { value: "sort:added asc", description: "Least recently added first" },
+    { value: "sort:released", description: "Most recently released first" },
+    { value: "sort:released asc", description: "Least recently released first" },
+    { value: "sort:name", description: "Sort by name" },
+    { value: "sort:random", description: "Random order" },
+    { value: "limit:100", description: "At most 100 tracks" },
+
+    ...labelNames.map((name) => ({
+      value: `label:"${name}"`,
+      description: `Has label "${name}"`,
+    })),
+    ...trackNames.map((name) => ({
+      value: `name:"${name}"`,
+      description: `Name includes "${name}"`,
+    })),
+    ...albumNames.map((name) => ({
+      value: `album:"${name}"`,
+      description: `Album is ${name}`,
+    })),
+    ...artistNames.map((name) => ({
+      value: `artist:"${name}"`,
+      description: `Artist is ${name}`,
+    })),
+    ...genres.map((genre) => ({
+      value: `genre:"${genre}"`,
+      description: `Genre includes "${genre}"`,
+    })),
+  ];
+}
@@ -0,0 +1,42 @@
+import { resolver } from "@blitzjs/rpc";
+import { z } from "zod";
+import { invalidateLabelCounts } from "app/labels/labelCounts";
+import { timeZone } from "app/lib/zodTypes";
+import { getNextRunAt } from "app/sync/schedule";
+import db from "db";
+
+const UpdateTimeZone = z.object({
+  // The IANA name of the user's new time zone
+  timeZone,
+});
+
+/*
+ * Change the time zone that dates in the user's smart criteria are interpreted in.
+ */
+export default resolver.pipe(
+  resolver.zod(UpdateTimeZone),
+  resolver.authorize(),
+  async ({ timeZone }, ctx) => {
+    const userId = ctx.session.userId;
+
+    await db.user.update({
+      where: { id: userId },
+      data: { timeZone },
+    });
+
+    // Dates in smart criteria now match different tracks
+    await invalidateLabelCounts(userId);
+
+    // Nightly syncs now run at a different time
+    const now = new Date();
+    const jobs = await db.syncJob.findMany({ where: { userId } });
+    await Promise.all(
+      jobs.map((job) =>
+        db.syncJob.update({
+          where: { id: job.id },
+          data: { nextRunAt: getNextRunAt(job.frequency, timeZone, now) },
+        }),
+      ),
+    );
+  },
+);
@@ -0,0 +1,10 @@
+import db from "db";
+
+// Load the time zone that dates in a user's smart criteria are interpreted in
+export async function loadUserTimeZone(userId: number): Promise<string> {
+  const { timeZone } = await db.user.findFirstOrThrow({
+    where: { id: userId },
+    select: { timeZone: true },
+  });
+  return timeZone;
+}
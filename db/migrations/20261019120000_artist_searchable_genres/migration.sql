@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Artist" ADD COLUMN     "searchableGenres" TEXT NOT NULL DEFAULT '';
+
+-- Backfill the searchable genres of existing artists
+UPDATE "Artist" SET "searchableGenres" = array_to_string("genres", E'\n');
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "labelCountsInvalidatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateTable
+CREATE TABLE "SmartLabelCount" (
+    "labelId" INTEGER NOT NULL,
+    "countedAt" TIMESTAMP(3) NOT NULL,
+    "count" INTEGER NOT NULL,
+
+    CONSTRAINT "SmartLabelCount_pkey" PRIMARY KEY ("labelId")
+);
+
+-- AddForeignKey
+ALTER TABLE "SmartLabelCount" ADD CONSTRAINT "SmartLabelCount_labelId_fkey" FOREIGN KEY ("labelId") REFERENCES "Label"("id") ON DELETE CASCADE ON UPDATE CASCADE;
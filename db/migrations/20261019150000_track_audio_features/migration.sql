@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Track" ADD COLUMN     "danceability" DOUBLE PRECISION,
+ADD COLUMN     "energy" DOUBLE PRECISION,
+ADD COLUMN     "key" INTEGER,
+ADD COLUMN     "tempo" DOUBLE PRECISION;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Track" ADD COLUMN     "durationMs" INTEGER,
+ADD COLUMN     "popularity" INTEGER;
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "RemovedTrack" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "spotifyId" TEXT NOT NULL,
+    "dateRemoved" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RemovedTrack_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_LabelToRemovedTrack" (
+    "A" INTEGER NOT NULL,
+    "B" INTEGER NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RemovedTrack_userId_spotifyId_key" ON "RemovedTrack"("userId", "spotifyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_LabelToRemovedTrack_AB_unique" ON "_LabelToRemovedTrack"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_LabelToRemovedTrack_B_index" ON "_LabelToRemovedTrack"("B");
+
+-- AddForeignKey
+ALTER TABLE "RemovedTrack" ADD CONSTRAINT "RemovedTrack_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_LabelToRemovedTrack" ADD CONSTRAINT "_LabelToRemovedTrack_A_fkey" FOREIGN KEY ("A") REFERENCES "Label"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_LabelToRemovedTrack" ADD CONSTRAINT "_LabelToRemovedTrack_B_fkey" FOREIGN KEY ("B") REFERENCES "RemovedTrack"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Playlist" ADD COLUMN     "snapshotId" TEXT,
+ADD COLUMN     "trackUris" TEXT[] DEFAULT ARRAY[]::TEXT[];
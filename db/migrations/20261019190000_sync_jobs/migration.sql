@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "SyncJobType" AS ENUM ('PULL_TRACKS', 'PUSH_PLAYLISTS');
+
+-- CreateEnum
+CREATE TYPE "SyncFrequency" AS ENUM ('HOURLY', 'DAILY', 'WEEKLY');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "syncLockExpiresAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "SyncJob" (
+    "id" SERIAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "type" "SyncJobType" NOT NULL,
+    "frequency" "SyncFrequency" NOT NULL,
+    "nextRunAt" TIMESTAMP(3) NOT NULL,
+    "lastRunAt" TIMESTAMP(3),
+    "lastError" TEXT,
+
+    CONSTRAINT "SyncJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncJob_nextRunAt_idx" ON "SyncJob"("nextRunAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SyncJob_userId_type_key" ON "SyncJob"("userId", "type");
+
+-- AddForeignKey
+ALTER TABLE "SyncJob" ADD CONSTRAINT "SyncJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "SyncRunType" AS ENUM ('PULL_TRACKS', 'RESYNC_TRACKS', 'PUSH_PLAYLISTS');
+
+-- CreateTable
+CREATE TABLE "SyncRun" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "type" "SyncRunType" NOT NULL,
+    "scheduled" BOOLEAN NOT NULL DEFAULT false,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "tracksAdded" INTEGER NOT NULL DEFAULT 0,
+    "tracksRemoved" INTEGER NOT NULL DEFAULT 0,
+    "playlistsCreated" INTEGER NOT NULL DEFAULT 0,
+    "playlistsUpdated" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "SyncRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SyncRunError" (
+    "id" SERIAL NOT NULL,
+    "runId" INTEGER NOT NULL,
+    "labelName" TEXT,
+    "message" TEXT NOT NULL,
+    "endpoint" TEXT,
+    "status" INTEGER,
+
+    CONSTRAINT "SyncRunError_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncRun_userId_startedAt_idx" ON "SyncRun"("userId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "SyncRun" ADD CONSTRAINT "SyncRun_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SyncRunError" ADD CONSTRAINT "SyncRunError_runId_fkey" FOREIGN KEY ("runId") REFERENCES "SyncRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
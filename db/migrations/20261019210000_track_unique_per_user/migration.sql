@@ -0,0 +1,7 @@
+-- Tracks were unique across all users, so the existing tracks are already unique per user
+
+-- DropIndex
+DROP INDEX "Track_spotifyId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Track_userId_spotifyId_key" ON "Track"("userId", "spotifyId");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Label" ADD COLUMN     "playlistCollaborative" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "playlistDescription" TEXT NOT NULL DEFAULT 'Tracks labeled "{label}" by playlist-gen',
+ADD COLUMN     "playlistName" TEXT NOT NULL DEFAULT '{label} [generated]',
+ADD COLUMN     "playlistPublic" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "Playlist" ADD COLUMN     "tracksUpdatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "DeletedPlaylist" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "spotifyId" TEXT NOT NULL,
+    "dateDeleted" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DeletedPlaylist_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeletedPlaylist_userId_spotifyId_key" ON "DeletedPlaylist"("userId", "spotifyId");
+
+-- AddForeignKey
+ALTER TABLE "DeletedPlaylist" ADD CONSTRAINT "DeletedPlaylist_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
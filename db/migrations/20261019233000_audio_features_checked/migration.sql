@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Track" ADD COLUMN     "audioFeaturesCheckedAt" TIMESTAMP(3);
+
+-- Tracks that already have audio features don't need to be looked up again
+UPDATE "Track" SET "audioFeaturesCheckedAt" = CURRENT_TIMESTAMP WHERE "tempo" IS NOT NULL;
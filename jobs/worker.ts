@@ -0,0 +1,59 @@
+// The background worker that runs users' scheduled syncs without a browser session
+// Run it alongside the web server with `npm run worker`
+
+import { loadEnvConfig } from "@next/env";
+import log from "loglevel";
+
+// How often to check for jobs that are due, in milliseconds
+const pollInterval = 60 * 1000;
+
+async function main(): Promise<void> {
+  // Load .env files the same way that Next does before loading the app's modules, which read the
+  // environment when they are loaded
+  loadEnvConfig(process.cwd(), process.env.NODE_ENV !== "production");
+  log.setLevel("info");
+  const { default: db } = await import("db");
+  const { runDueSyncJobs } = await import("app/sync/syncJobs");
+
+  let stopping = false;
+  let wake: () => void = () => {};
+  const stop = () => {
+    log.info("Stopping after the current jobs finish...");
+    stopping = true;
+    wake();
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  log.info("Worker started");
+  /* eslint-disable no-await-in-loop */
+  while (!stopping) {
+    try {
+      const jobsRun = await runDueSyncJobs();
+      if (jobsRun > 0) {
+        log.info(`Ran ${jobsRun} jobs`);
+      }
+    } catch (err) {
+      log.error("Running jobs failed:");
+      log.error(err);
+    }
+
+    if (!stopping) {
+      await new Promise<void>((resolve) => {
+        const timeout = setTimeout(resolve, pollInterval);
+        wake = () => {
+          clearTimeout(timeout);
+          resolve();
+        };
+      });
+    }
+  }
+  /* eslint-enable no-await-in-loop */
+
+  await db.$disconnect();
+}
+
+main().catch((err) => {
+  log.error(err);
+  process.exit(1);
+});
@@ -4,6 +4,7 @@ import { InferGetServerSidePropsType } from "next";
 import { gSSP } from "app/blitz-server";
 import Layout from "app/core/layouts/Layout";
 import { env } from "app/lib/env";
+import { spotifyClient } from "app/spotify/spotifyClient";
 
 export const getServerSideProps = gSSP(async ({ req, ctx }) => {
   const redirectUri = new URL(req.url ?? "", env.DOMAIN).searchParams.get("next") ?? "/";
@@ -34,13 +35,13 @@ export const getServerSideProps = gSSP(async ({ req, ctx }) => {
   const qs = new URLSearchParams({
     response_type: "code",
     client_id: env.SPOTIFY_CLIENT_ID,
-    scope: "user-library-read,playlist-read-private,playlist-modify-private",
+    scope: "user-library-read,user-library-modify,playlist-read-private,playlist-modify-private",
     redirect_uri: `${env.DOMAIN}/auth/oauth_callback`,
     state,
   });
   return {
     props: {
-      spotifyOauthUrl: `https://accounts.spotify.com/authorize?${qs.toString()}`,
+      spotifyOauthUrl: spotifyClient.getAuthorizeUrl(qs),
     },
   };
 });
@@ -7,6 +7,7 @@ import { z } from "zod";
 import { gSSP } from "app/blitz-server";
 import Layout from "app/core/layouts/Layout";
 import { env } from "app/lib/env";
+import { spotifyClient } from "app/spotify/spotifyClient";
 import db from "db";
 
 // POST https://accounts.spotify.com/api/token
@@ -48,16 +49,7 @@ export const getServerSideProps = gSSP(async ({ req, ctx }) => {
   body.append("grant_type", "authorization_code");
   body.append("code", code);
   body.append("redirect_uri", `${env.DOMAIN}/auth/oauth_callback`);
-  const authorization = `${env.SPOTIFY_CLIENT_ID}:${env.SPOTIFY_CLIENT_SECRET}`;
-  const tokenRes = await fetch("https://accounts.spotify.com/api/token", {
-    method: "POST",
-    body,
-    headers: {
-      Accept: "application/json",
-      Authorization: `Basic ${Buffer.from(authorization).toString("base64")}`,
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-  });
+  const tokenRes = await spotifyClient.requestToken(body);
   const {
     access_token: accessToken,
     refresh_token: refreshToken,
@@ -65,11 +57,7 @@ export const getServerSideProps = gSSP(async ({ req, ctx }) => {
   } = TokenResponse.parse(await tokenRes.json());
 
   // Use the access token to get the user's id
-  const userRes = await fetch("https://api.spotify.com/v1/me", {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
+  const userRes = await spotifyClient.requestApi(accessToken, "/v1/me");
   const profile = ProfileResponse.parse(await userRes.json());
   const spotifyId = profile.id;
 
@@ -0,0 +1,58 @@
+import { BlitzPage } from "@blitzjs/next";
+import { usePaginatedQuery } from "@blitzjs/rpc";
+import { Pagination, Text, Title } from "@mantine/core";
+import { useRouter } from "next/router";
+import { Suspense } from "react";
+import Layout from "app/core/layouts/Layout";
+import { handleAsyncErrors } from "app/lib/async";
+import SyncRunList from "app/sync/components/SyncRunList";
+import getSyncRuns from "app/sync/queries/getSyncRuns";
+
+const ITEMS_PER_PAGE = 25;
+
+export const SyncHistory = () => {
+  const router = useRouter();
+  const page = Math.max(Number(router.query.page) || 1, 1);
+  const [
+    {
+      data: { runs, count },
+    },
+  ] = usePaginatedQuery(getSyncRuns, {
+    skip: ITEMS_PER_PAGE * (page - 1),
+    take: ITEMS_PER_PAGE,
+  });
+  const pageCount = Math.ceil(count / ITEMS_PER_PAGE);
+
+  return (
+    <div>
+      <Title order={2} pb="md">
+        Sync history
+      </Title>
+      {runs.length === 0 ? <Text>Nothing has been synced yet.</Text> : <SyncRunList runs={runs} />}
+      {pageCount > 1 || page > 1 ? (
+        <Pagination
+          total={pageCount}
+          withEdges
+          position="center"
+          p="lg"
+          page={page}
+          onChange={(page) => {
+            handleAsyncErrors(router.push({ query: { page } }));
+          }}
+        />
+      ) : null}
+    </div>
+  );
+};
+
+const SyncHistoryPage: BlitzPage = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <SyncHistory />
+    </Suspense>
+  );
+};
+
+SyncHistoryPage.getLayout = (page) => <Layout title="Sync History">{page}</Layout>;
+
+export default SyncHistoryPage;
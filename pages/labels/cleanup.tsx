@@ -0,0 +1,21 @@
+import { BlitzPage } from "@blitzjs/next";
+import { Suspense } from "react";
+import Layout from "app/core/layouts/Layout";
+import CleanUpPlaylistsForm from "app/labels/components/CleanUpPlaylistsForm";
+import LabelNavbar from "app/labels/components/LabelNavbar";
+
+const CleanUpPlaylistsPage: BlitzPage = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <CleanUpPlaylistsForm />
+    </Suspense>
+  );
+};
+
+CleanUpPlaylistsPage.getLayout = (page) => (
+  <Layout title="Clean Up Playlists" navbar={<LabelNavbar />}>
+    {page}
+  </Layout>
+);
+
+export default CleanUpPlaylistsPage;
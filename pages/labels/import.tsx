@@ -0,0 +1,21 @@
+import { BlitzPage } from "@blitzjs/next";
+import { Suspense } from "react";
+import Layout from "app/core/layouts/Layout";
+import ImportPlaylistsForm from "app/labels/components/ImportPlaylistsForm";
+import LabelNavbar from "app/labels/components/LabelNavbar";
+
+const ImportPlaylistsPage: BlitzPage = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <ImportPlaylistsForm />
+    </Suspense>
+  );
+};
+
+ImportPlaylistsPage.getLayout = (page) => (
+  <Layout title="Import Playlists" navbar={<LabelNavbar />}>
+    {page}
+  </Layout>
+);
+
+export default ImportPlaylistsPage;
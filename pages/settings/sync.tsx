@@ -0,0 +1,16 @@
+import { BlitzPage } from "@blitzjs/next";
+import { Suspense } from "react";
+import Layout from "app/core/layouts/Layout";
+import SyncJobsForm from "app/sync/components/SyncJobsForm";
+
+const SyncSettingsPage: BlitzPage = () => {
+  return (
+    <Suspense fallback={<div>Loading...</div>}>
+      <SyncJobsForm />
+    </Suspense>
+  );
+};
+
+SyncSettingsPage.getLayout = (page) => <Layout title="Sync Schedule">{page}</Layout>;
+
+export default SyncSettingsPage;
@@ -1,15 +1,15 @@
 import { BlitzPage } from "@blitzjs/next";
 import { usePaginatedQuery, useQuery } from "@blitzjs/rpc";
-import { Autocomplete, Box, Pagination, Select, Text } from "@mantine/core";
+import { Autocomplete, Box, Pagination, Select } from "@mantine/core";
 import { IconSearch } from "@tabler/icons";
-import { assert } from "blitz";
 import { useRouter } from "next/router";
 import { Suspense, useState } from "react";
 import Layout from "app/core/layouts/Layout";
+import SmartCriteriaErrorMessage from "app/labels/components/SmartCriteriaErrorMessage";
 import getLabels from "app/labels/queries/getLabels";
 import { handleAsyncErrors } from "app/lib/async";
 import TrackList from "app/tracks/components/TrackList";
-import getSearchExamples from "app/tracks/queries/getSearchExamples";
+import { useSearchCompletions } from "app/tracks/hooks/useSearchCompletions";
 import getTracks from "app/tracks/queries/getTracks";
 
 const ITEMS_PER_PAGE = 50;
@@ -29,36 +29,11 @@ export const TracksList = () => {
   const [{ labels }] = useQuery(getLabels, {
     includeSmartLabels: false,
   });
-  const [
-    {
-      data: { examples },
-    },
-  ] = useQuery(getSearchExamples, {});
+  const searchOptions = useSearchCompletions(search);
   const pageCount = Math.ceil(count / ITEMS_PER_PAGE);
 
   const [quickLabel, setQuickLabel] = useState<number | null>(null);
 
-  const searchOptions = examples.map(({ value, description }) => {
-    // Break the search query into the tail (the incomplete search term) and
-    // the head (the rest of the search)
-    const matches = /^(.*?[!(]*)([\S]*)$/.exec(search);
-    const searchHead = matches && matches[1];
-    assert(typeof searchHead === "string", "Failed to match search");
-
-    return {
-      value: `${searchHead}${value}`,
-      label: (
-        <Text>
-          {searchHead.length === 0 ? "" : "... "}
-          {value}
-          <Text component="span" color="dimmed" size="sm" pl="0.5em">
-            {description}
-          </Text>
-        </Text>
-      ),
-    };
-  });
-
   return (
     <div>
       <Box sx={{ display: "flex", gap: "3em", paddingBottom: "1em" }}>
@@ -66,9 +41,15 @@ export const TracksList = () => {
           label="Search"
           rightSection={<IconSearch />}
           data={searchOptions}
+          // The completions are already filtered to the ones that match the search
+          filter={() => true}
           limit={10}
           defaultValue={search}
-          error={result.error?.message}
+          error={
+            result.success ? null : (
+              <SmartCriteriaErrorMessage criteria={search} error={result.error} />
+            )
+          }
           onChange={setSearch}
           styles={(theme) => ({
             item: {
@@ -0,0 +1,575 @@
+// An in-process fake of the parts of Spotify's accounts service and Web API that the app uses,
+// so that syncing can be tested without network access or a real Spotify account
+// Point SPOTIFY_ACCOUNTS_URL and SPOTIFY_API_URL at the server's URL before loading the app's
+// modules
+
+import { IncomingMessage, ServerResponse, createServer } from "http";
+import { AddressInfo } from "net";
+
+export type FakeTrack = {
+  id: string;
+  name: string;
+  album: {
+    id: string;
+    name: string;
+    release_date: string;
+    images: { url: string }[];
+  };
+  artists: { id: string }[];
+  duration_ms: number;
+  explicit: boolean;
+  popularity: number;
+};
+
+export type FakeArtist = {
+  id: string;
+  name: string;
+  genres: string[];
+};
+
+export type FakeAudioFeatures = {
+  id: string;
+  tempo: number;
+  energy: number;
+  danceability: number;
+  key: number;
+};
+
+export type FakePlaylist = {
+  id: string;
+  ownerId: string;
+  name: string;
+  description: string;
+  public: boolean;
+  collaborative: boolean;
+  // The URIs of the tracks in the playlist, like "spotify:track:abc"
+  trackUris: string[];
+  // Changes whenever the playlist's tracks change
+  snapshotId: string;
+};
+
+export type FakeSpotifyState = {
+  // The id of the only user, who all access tokens belong to
+  userId: string;
+  // The only access token that the API accepts
+  accessToken: string;
+  // The user's saved tracks, most recently saved first
+  savedTracks: { added_at: string; track: FakeTrack }[];
+  // Tracks that exist on Spotify without being saved, like the tracks in other users' playlists
+  catalog: Map<string, FakeTrack>;
+  artists: Map<string, FakeArtist>;
+  audioFeatures: Map<string, FakeAudioFeatures>;
+  // The ids of tracks that aren't available anymore, which are null in playlists
+  unavailableTracks: Set<string>;
+  playlists: Map<string, FakePlaylist>;
+};
+
+export type FakeSpotifyServer = {
+  // The base URL of both the accounts service and the Web API
+  url: string;
+  state: FakeSpotifyState;
+  // The endpoints of the requests that the server received, like "GET /v1/me/tracks"
+  requests: string[];
+  // Make the next request to an endpoint fail with the status and headers
+  failNext(endpoint: string, status: number, headers?: Record<string, string>): void;
+  // Forget all data, requests, and pending failures
+  reset(): void;
+  close(): Promise<void>;
+};
+
+type Route = {
+  method: string;
+  // Matches the request's path, capturing parameters
+  path: RegExp;
+  handle(
+    req: { url: URL; params: string[]; body: string },
+    state: FakeSpotifyState,
+  ): { status: number; body: unknown };
+};
+
+// Parse a comma-separated list of ids from a query parameter
+function parseIds(url: URL): string[] {
+  return (url.searchParams.get("ids") ?? "").split(",").filter((id) => id.length > 0);
+}
+
+// Parse the track URIs passed as a query parameter or in the JSON body
+function parseUris(url: URL, body: string): string[] {
+  const uris = url.searchParams.get("uris");
+  if (uris !== null) {
+    return uris.split(",");
+  }
+  return body ? (JSON.parse(body) as { uris?: string[] }).uris ?? [] : [];
+}
+
+let nextId = 0;
+
+// Generate a unique id for a new playlist or snapshot
+function generateId(prefix: string): string {
+  return `${prefix}-${++nextId}`;
+}
+
+function notFound(message: string): { status: number; body: unknown } {
+  return { status: 404, body: { error: { status: 404, message } } };
+}
+
+function badRequest(message: string): { status: number; body: unknown } {
+  return { status: 400, body: { error: { status: 400, message } } };
+}
+
+// Escape HTML the way that Spotify does in playlist descriptions
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#x27;")
+    .replace(/\//g, "&#x2F;");
+}
+
+// Find a saved or unsaved track by its id
+function findTrack(state: FakeSpotifyState, id: string): FakeTrack | null {
+  return (
+    state.savedTracks.find(({ track }) => track.id === id)?.track ?? state.catalog.get(id) ?? null
+  );
+}
+
+// Find a playlist that the request is modifying
+function findPlaylist(state: FakeSpotifyState, id: string | undefined): FakePlaylist | null {
+  return state.playlists.get(id ?? "") ?? null;
+}
+
+const routes: Route[] = [
+  {
+    method: "POST",
+    path: /^\/api\/token$/,
+    handle(_, state) {
+      state.accessToken = generateId("access-token");
+      return {
+        status: 200,
+        body: { access_token: state.accessToken, token_type: "Bearer", expires_in: 3600 },
+      };
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/v1\/me$/,
+    handle(_, state) {
+      return { status: 200, body: { id: state.userId, images: [] } };
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/v1\/me\/tracks$/,
+    handle({ url }, state) {
+      const offset = Number(url.searchParams.get("offset") ?? 0);
+      const limit = Number(url.searchParams.get("limit") ?? 20);
+      if (limit > 50) {
+        return badRequest("Invalid limit");
+      }
+      return {
+        status: 200,
+        body: {
+          items: state.savedTracks.slice(offset, offset + limit),
+          offset,
+          limit,
+          total: state.savedTracks.length,
+        },
+      };
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/v1\/me\/tracks\/contains$/,
+    handle({ url }, state) {
+      const ids = parseIds(url);
+      if (ids.length > 50) {
+        return badRequest("Too many ids");
+      }
+      return {
+        status: 200,
+        body: ids.map((id) => state.savedTracks.some(({ track }) => track.id === id)),
+      };
+    },
+  },
+  {
+    method: "PUT",
+    path: /^\/v1\/me\/tracks$/,
+    handle({ body }, state) {
+      const { ids } = JSON.parse(body) as { ids: string[] };
+      if (ids.length > 50) {
+        return badRequest("Too many ids");
+      }
+      const addedAt = new Date().toISOString();
+      for (const id of ids) {
+        const track = findTrack(state, id);
+        if (!track) {
+          return notFound("Track not found");
+        }
+        if (!state.savedTracks.some((saved) => saved.track.id === id)) {
+          state.savedTracks.unshift({ added_at: addedAt, track });
+        }
+      }
+      // Spotify responds with an empty body
+      return { status: 200, body: undefined };
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/v1\/tracks$/,
+    handle({ url }, state) {
+      return {
+        status: 200,
+        body: { tracks: parseIds(url).map((id) => findTrack(state, id)) },
+      };
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/v1\/artists$/,
+    handle({ url }, state) {
+      return {
+        status: 200,
+        body: { artists: parseIds(url).map((id) => state.artists.get(id) ?? null) },
+      };
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/v1\/audio-features$/,
+    handle({ url }, state) {
+      return {
+        status: 200,
+        body: { audio_features: parseIds(url).map((id) => state.audioFeatures.get(id) ?? null) },
+      };
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/v1\/me\/playlists$/,
+    handle({ url }, state) {
+      const offset = Number(url.searchParams.get("offset") ?? 0);
+      const limit = Number(url.searchParams.get("limit") ?? 20);
+      if (limit > 50) {
+        return badRequest("Invalid limit");
+      }
+      const playlists = [...state.playlists.values()];
+      const nextOffset = offset + limit;
+      return {
+        status: 200,
+        body: {
+          items: playlists.slice(offset, nextOffset).map((playlist) => ({
+            id: playlist.id,
+            name: playlist.name,
+            images: [],
+            owner: { id: playlist.ownerId },
+            tracks: { total: playlist.trackUris.length },
+          })),
+          next:
+            nextOffset < playlists.length
+              ? `${url.origin}${url.pathname}?offset=${nextOffset}&limit=${limit}`
+              : null,
+          total: playlists.length,
+        },
+      };
+    },
+  },
+  {
+    method: "POST",
+    path: /^\/v1\/users\/([^/]+)\/playlists$/,
+    handle({ params: [userId], body }, state) {
+      if (userId !== state.userId) {
+        return { status: 403, body: { error: { status: 403, message: "Forbidden" } } };
+      }
+      const options = JSON.parse(body) as {
+        name: string;
+        description?: string;
+        public?: boolean;
+        collaborative?: boolean;
+      };
+      const playlist: FakePlaylist = {
+        id: generateId("playlist"),
+        ownerId: state.userId,
+        name: options.name,
+        description: options.description ?? "",
+        public: options.public ?? true,
+        collaborative: options.collaborative ?? false,
+        trackUris: [],
+        snapshotId: generateId("snapshot"),
+      };
+      state.playlists.set(playlist.id, playlist);
+      return { status: 201, body: { id: playlist.id, snapshot_id: playlist.snapshotId } };
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/v1\/playlists\/([^/]+)$/,
+    handle({ params: [playlistId] }, state) {
+      const playlist = findPlaylist(state, playlistId);
+      if (!playlist) {
+        return notFound("Playlist not found");
+      }
+      return {
+        status: 200,
+        body: {
+          id: playlist.id,
+          name: playlist.name,
+          description: escapeHtml(playlist.description),
+          public: playlist.public,
+          collaborative: playlist.collaborative,
+          owner: { id: playlist.ownerId },
+          snapshot_id: playlist.snapshotId,
+        },
+      };
+    },
+  },
+  {
+    // Changes the playlist's details
+    method: "PUT",
+    path: /^\/v1\/playlists\/([^/]+)$/,
+    handle({ params: [playlistId], body }, state) {
+      const playlist = findPlaylist(state, playlistId);
+      if (!playlist) {
+        return notFound("Playlist not found");
+      }
+      const details = JSON.parse(body) as Partial<
+        Pick<FakePlaylist, "name" | "description" | "public" | "collaborative">
+      >;
+      if (
+        (details.collaborative ?? playlist.collaborative) &&
+        (details.public ?? playlist.public)
+      ) {
+        return badRequest("Collaborative playlists can't be public");
+      }
+      Object.assign(playlist, details);
+      playlist.snapshotId = generateId("snapshot");
+      // Spotify responds with an empty body
+      return { status: 200, body: undefined };
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/v1\/playlists\/([^/]+)\/tracks$/,
+    handle({ url, params: [playlistId] }, state) {
+      const playlist = findPlaylist(state, playlistId);
+      if (!playlist) {
+        return notFound("Playlist not found");
+      }
+      const offset = Number(url.searchParams.get("offset") ?? 0);
+      const limit = Number(url.searchParams.get("limit") ?? 100);
+      if (limit > 100) {
+        return badRequest("Invalid limit");
+      }
+      const nextOffset = offset + limit;
+      return {
+        status: 200,
+        body: {
+          items: playlist.trackUris.slice(offset, nextOffset).map((uri) => {
+            const id = uri.split(":")[2] ?? "";
+            return {
+              added_at: new Date().toISOString(),
+              track: state.unavailableTracks.has(id) ? null : { ...findTrack(state, id), id, uri },
+            };
+          }),
+          next:
+            nextOffset < playlist.trackUris.length
+              ? `${url.origin}${url.pathname}?offset=${nextOffset}&limit=${limit}`
+              : null,
+          total: playlist.trackUris.length,
+        },
+      };
+    },
+  },
+  {
+    // Replaces or reorders the playlist's tracks
+    method: "PUT",
+    path: /^\/v1\/playlists\/([^/]+)\/tracks$/,
+    handle({ url, params: [playlistId], body }, state) {
+      const playlist = findPlaylist(state, playlistId);
+      if (!playlist) {
+        return notFound("Playlist not found");
+      }
+      const options = (body ? JSON.parse(body) : {}) as {
+        range_start?: number;
+        range_length?: number;
+        insert_before?: number;
+      };
+      if (options.range_start === undefined) {
+        const uris = parseUris(url, body);
+        if (uris.length > 100) {
+          return badRequest("Too many tracks");
+        }
+        playlist.trackUris = uris;
+      } else {
+        const { range_start: rangeStart, range_length: rangeLength = 1 } = options;
+        const insertBefore = options.insert_before ?? 0;
+        const moved = playlist.trackUris.splice(rangeStart, rangeLength);
+        playlist.trackUris.splice(
+          insertBefore > rangeStart ? insertBefore - rangeLength : insertBefore,
+          0,
+          ...moved,
+        );
+      }
+      playlist.snapshotId = generateId("snapshot");
+      return { status: 200, body: { snapshot_id: playlist.snapshotId } };
+    },
+  },
+  {
+    method: "POST",
+    path: /^\/v1\/playlists\/([^/]+)\/tracks$/,
+    handle({ url, params: [playlistId], body }, state) {
+      const playlist = findPlaylist(state, playlistId);
+      if (!playlist) {
+        return notFound("Playlist not found");
+      }
+      const uris = parseUris(url, body);
+      if (uris.length > 100) {
+        return badRequest("Too many tracks");
+      }
+      const { position } = (body ? JSON.parse(body) : {}) as { position?: number };
+      playlist.trackUris.splice(position ?? playlist.trackUris.length, 0, ...uris);
+      playlist.snapshotId = generateId("snapshot");
+      return { status: 201, body: { snapshot_id: playlist.snapshotId } };
+    },
+  },
+  {
+    // Unfollowing a playlist that the user owns is how Spotify deletes it
+    method: "DELETE",
+    path: /^\/v1\/playlists\/([^/]+)\/followers$/,
+    handle({ params: [playlistId] }, state) {
+      if (!findPlaylist(state, playlistId)) {
+        return notFound("Playlist not found");
+      }
+      state.playlists.delete(playlistId ?? "");
+      return { status: 200, body: undefined };
+    },
+  },
+  {
+    method: "DELETE",
+    path: /^\/v1\/playlists\/([^/]+)\/tracks$/,
+    handle({ params: [playlistId], body }, state) {
+      const playlist = findPlaylist(state, playlistId);
+      if (!playlist) {
+        return notFound("Playlist not found");
+      }
+      // Every occurrence of the tracks is removed
+      const { tracks } = JSON.parse(body) as { tracks: { uri: string }[] };
+      if (tracks.length > 100) {
+        return badRequest("Too many tracks");
+      }
+      const removedUris = new Set(tracks.map(({ uri }) => uri));
+      playlist.trackUris = playlist.trackUris.filter((uri) => !removedUris.has(uri));
+      playlist.snapshotId = generateId("snapshot");
+      return { status: 200, body: { snapshot_id: playlist.snapshotId } };
+    },
+  },
+];
+
+// Create empty state for a fake Spotify account
+function makeState(): FakeSpotifyState {
+  return {
+    userId: "fake-user",
+    accessToken: generateId("access-token"),
+    savedTracks: [],
+    catalog: new Map(),
+    artists: new Map(),
+    audioFeatures: new Map(),
+    unavailableTracks: new Set(),
+    playlists: new Map(),
+  };
+}
+
+// Read the entire body of a request
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): void {
+  if (body === undefined) {
+    res.writeHead(status, headers);
+    res.end();
+    return;
+  }
+  res.writeHead(status, { ...headers, "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+// Start a fake Spotify server on a random local port
+export async function startFakeSpotifyServer(): Promise<FakeSpotifyServer> {
+  const requests: string[] = [];
+  const failures: { endpoint: string; status: number; headers: Record<string, string> }[] = [];
+  const fake = {
+    url: "",
+    state: makeState(),
+    requests,
+    failNext(endpoint: string, status: number, headers: Record<string, string> = {}) {
+      failures.push({ endpoint, status, headers });
+    },
+    reset() {
+      fake.state = makeState();
+      requests.length = 0;
+      failures.length = 0;
+    },
+    close() {
+      return new Promise<void>((resolve, reject) => {
+        server.close((err) => (err ? reject(err) : resolve()));
+      });
+    },
+  };
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", fake.url);
+    const endpoint = `${req.method ?? "GET"} ${url.pathname}`;
+    requests.push(endpoint);
+
+    readBody(req)
+      .then((body) => {
+        const failureIndex = failures.findIndex((failure) => failure.endpoint === endpoint);
+        const [failure] = failureIndex === -1 ? [] : failures.splice(failureIndex, 1);
+        if (failure) {
+          sendJson(
+            res,
+            failure.status,
+            { error: { status: failure.status, message: "Injected failure" } },
+            failure.headers,
+          );
+          return;
+        }
+
+        if (
+          url.pathname.startsWith("/v1/") &&
+          req.headers.authorization !== `Bearer ${fake.state.accessToken}`
+        ) {
+          sendJson(res, 401, { error: { status: 401, message: "Invalid access token" } });
+          return;
+        }
+
+        for (const route of routes) {
+          const match = route.method === req.method ? route.path.exec(url.pathname) : null;
+          if (match) {
+            const params = match.slice(1).map((param) => decodeURIComponent(param));
+            const result = route.handle({ url, params, body }, fake.state);
+            sendJson(res, result.status, result.body);
+            return;
+          }
+        }
+        sendJson(res, 404, { error: { status: 404, message: `No route for ${endpoint}` } });
+      })
+      .catch((err: Error) => {
+        sendJson(res, 500, { error: { status: 500, message: err.message } });
+      });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  fake.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return fake;
+}